@@ -1,2 +1,7 @@
 // Components module exports
 export { default as NavBar } from './NavBar.svelte';
+export { default as CsvImportModal } from './CsvImportModal.svelte';
+export { default as ImportReconcileList } from './ImportReconcileList.svelte';
+export { default as FlaggedValue } from './FlaggedValue.svelte';
+export { default as ExtractionIssues } from './ExtractionIssues.svelte';
+export { default as DocumentExtractionReview } from './DocumentExtractionReview.svelte';
@@ -1 +1,3 @@
 export * from './statHolidays';
+export * from './shifts';
+export * from './timeOff';
@@ -0,0 +1,23 @@
+// Standard shift definitions. Times and default hours here are the defaults;
+// a profile's pay rules can override them for other locals' agreements.
+
+export const SHIFTS = {
+  day: {
+    name: 'Day',
+    start: '8:00am',
+    end: '4:30pm',
+    defaultHours: 8
+  },
+  afternoon: {
+    name: 'Afternoon',
+    start: '4:30pm',
+    end: '1:00am',
+    defaultHours: 8
+  },
+  graveyard: {
+    name: 'Graveyard',
+    start: '1:00am',
+    end: '8:00am',
+    defaultHours: 6.5
+  }
+} as const;
@@ -2,6 +2,7 @@
 // These dates include specific qualification periods
 
 import { statHolidayQueries } from '$lib/db/queries';
+import { addDays, localToday, toDateString } from '$lib/utils/dates';
 
 export interface StatHoliday {
   name: string;
@@ -179,6 +180,16 @@ const STAT_HOLIDAYS_2027: StatHoliday[] = [
   }
 ];
 
+// Where a year's holidays come from: a schedule saved on this device, the
+// built-in official schedule, or dates estimated from the holiday rules
+export type StatScheduleSource = 'saved' | 'official' | 'estimated';
+
+export function getStatScheduleSource(year: number): StatScheduleSource {
+  const dbHolidays = getDbHolidaysForYear(year);
+  if (dbHolidays && dbHolidays.length > 0) return 'saved';
+  return year === 2026 || year === 2027 ? 'official' : 'estimated';
+}
+
 // Get stat holidays for a given year
 export function getStatHolidaysForYear(year: number): StatHoliday[] {
   // First check database cache
@@ -200,14 +211,10 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
 
   // Helper to calculate qualification window (approx 28-30 days before stat, ending ~2-4 days before)
   function calcQualWindow(statDate: string): { start: string; end: string } {
-    const date = new Date(statDate);
-    const end = new Date(date);
-    end.setDate(date.getDate() - 4); // End ~4 days before stat
-    const start = new Date(end);
-    start.setDate(end.getDate() - 27); // ~28 day window
+    const end = addDays(statDate, -4); // End ~4 days before stat
     return {
-      start: start.toISOString().split('T')[0],
-      end: end.toISOString().split('T')[0]
+      start: addDays(end, -27), // ~28 day window
+      end
     };
   }
 
@@ -223,7 +230,7 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
 
   // Family Day - 3rd Monday of February
   const familyDay = getNthWeekdayOfMonth(year, 1, 1, 3);
-  const familyDayStr = familyDay.toISOString().split('T')[0];
+  const familyDayStr = toDateString(familyDay);
   const familyWindow = calcQualWindow(familyDayStr);
   holidays.push({
     name: 'Family Day',
@@ -236,7 +243,7 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
   const easter = getEasterDate(year);
   const goodFriday = new Date(easter);
   goodFriday.setDate(easter.getDate() - 2);
-  const goodFridayStr = goodFriday.toISOString().split('T')[0];
+  const goodFridayStr = toDateString(goodFriday);
   const goodFridayWindow = calcQualWindow(goodFridayStr);
   holidays.push({
     name: 'Good Friday',
@@ -248,7 +255,7 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
   // Easter Monday
   const easterMonday = new Date(easter);
   easterMonday.setDate(easter.getDate() + 1);
-  const easterMondayStr = easterMonday.toISOString().split('T')[0];
+  const easterMondayStr = toDateString(easterMonday);
   const easterMondayWindow = calcQualWindow(easterMondayStr);
   holidays.push({
     name: 'Easter Monday',
@@ -260,7 +267,7 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
   // Victoria Day - Monday before May 25
   const may25 = new Date(year, 4, 25);
   const victoriaDay = new Date(year, 4, 25 - ((may25.getDay() + 6) % 7 || 7));
-  const victoriaDayStr = victoriaDay.toISOString().split('T')[0];
+  const victoriaDayStr = toDateString(victoriaDay);
   const victoriaWindow = calcQualWindow(victoriaDayStr);
   holidays.push({
     name: 'Victoria Day',
@@ -274,7 +281,7 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
   if (canadaDay.getDay() === 0) {
     canadaDay = new Date(year, 6, 2);
   }
-  const canadaDayStr = canadaDay.toISOString().split('T')[0];
+  const canadaDayStr = toDateString(canadaDay);
   const canadaWindow = calcQualWindow(canadaDayStr);
   holidays.push({
     name: 'Canada Day',
@@ -285,7 +292,7 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
 
   // BC Day - 1st Monday of August
   const bcDay = getNthWeekdayOfMonth(year, 7, 1, 1);
-  const bcDayStr = bcDay.toISOString().split('T')[0];
+  const bcDayStr = toDateString(bcDay);
   const bcWindow = calcQualWindow(bcDayStr);
   holidays.push({
     name: 'BC Day',
@@ -296,7 +303,7 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
 
   // Labour Day - 1st Monday of September
   const labourDay = getNthWeekdayOfMonth(year, 8, 1, 1);
-  const labourDayStr = labourDay.toISOString().split('T')[0];
+  const labourDayStr = toDateString(labourDay);
   const labourWindow = calcQualWindow(labourDayStr);
   holidays.push({
     name: 'Labour Day',
@@ -317,7 +324,7 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
 
   // Thanksgiving Day - 2nd Monday of October
   const thanksgiving = getNthWeekdayOfMonth(year, 9, 1, 2);
-  const thanksgivingStr = thanksgiving.toISOString().split('T')[0];
+  const thanksgivingStr = toDateString(thanksgiving);
   const thanksgivingWindow = calcQualWindow(thanksgivingStr);
   holidays.push({
     name: 'Thanksgiving',
@@ -361,7 +368,7 @@ export function getStatHolidaysForYear(year: number): StatHoliday[] {
 
 // Get the next upcoming stat holiday
 export function getNextStatHoliday(): StatHoliday | null {
-  const today = new Date().toISOString().split('T')[0];
+  const today = localToday();
   const currentYear = new Date().getFullYear();
 
   // Get holidays for current and next year
@@ -390,15 +397,11 @@ export function getStatQualifyingWindow(statDate: string): { start: string; end:
   }
 
   // Fallback to calculated window if not found
-  const statDateObj = new Date(statDate);
-  const endDate = new Date(statDateObj);
-  endDate.setDate(statDateObj.getDate() - 4);
-  const startDate = new Date(endDate);
-  startDate.setDate(endDate.getDate() - 27);
+  const endDate = addDays(statDate, -4);
 
   return {
-    start: startDate.toISOString().split('T')[0],
-    end: endDate.toISOString().split('T')[0]
+    start: addDays(endDate, -27),
+    end: endDate
   };
 }
 
@@ -0,0 +1,58 @@
+// Leave types, in the order they're offered. Class names are spelled out in full
+// so Tailwind keeps them.
+
+import type { TimeOffType } from '$lib/db/schema';
+
+export const TIME_OFF_TYPES: Record<TimeOffType, { name: string; icon: string; badge: string; button: string; border: string }> = {
+  vacation: {
+    name: 'Vacation',
+    icon: '🏖️',
+    badge: 'bg-amber-100 text-amber-700',
+    button: 'bg-amber-500 text-white',
+    border: 'border-amber-400'
+  },
+  sick: {
+    name: 'Sick',
+    icon: '🤒',
+    badge: 'bg-red-100 text-red-700',
+    button: 'bg-red-500 text-white',
+    border: 'border-red-400'
+  },
+  wcb: {
+    name: 'WCB',
+    icon: '🩹',
+    badge: 'bg-orange-100 text-orange-700',
+    button: 'bg-orange-500 text-white',
+    border: 'border-orange-400'
+  },
+  bereavement: {
+    name: 'Bereavement',
+    icon: '🕊️',
+    badge: 'bg-slate-100 text-slate-700',
+    button: 'bg-slate-500 text-white',
+    border: 'border-slate-400'
+  },
+  union_business: {
+    name: 'Union Business',
+    icon: '✊',
+    badge: 'bg-indigo-100 text-indigo-700',
+    button: 'bg-indigo-500 text-white',
+    border: 'border-indigo-400'
+  },
+  jury_duty: {
+    name: 'Jury Duty',
+    icon: '⚖️',
+    badge: 'bg-teal-100 text-teal-700',
+    button: 'bg-teal-500 text-white',
+    border: 'border-teal-400'
+  },
+  unpaid: {
+    name: 'Unpaid Leave',
+    icon: '📅',
+    badge: 'bg-gray-200 text-gray-700',
+    button: 'bg-gray-500 text-white',
+    border: 'border-gray-400'
+  }
+};
+
+export const TIME_OFF_TYPE_KEYS = Object.keys(TIME_OFF_TYPES) as TimeOffType[];
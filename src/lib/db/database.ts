@@ -4,11 +4,39 @@ import { Capacitor } from '@capacitor/core';
 
 const DB_NAME = 'docklogger';
 
-class DatabaseService {
+export interface BatchStatement {
+  statement: string;
+  values?: unknown[];
+}
+
+// The database, or an open transaction - what query helpers write through
+export interface DbExecutor {
+  run(statement: string, values?: unknown[]): Promise<{ changes: number; lastId: number }>;
+  execute(statement: string): Promise<void>;
+  query<T = unknown>(statement: string, values?: unknown[]): Promise<T[]>;
+  executeBatch(statements: BatchStatement[]): Promise<{ changes: number; lastIds: number[] }>;
+  transaction<T>(fn: (tx: DbExecutor) => Promise<T>): Promise<T>;
+}
+
+async function runBatch(db: DbExecutor, statements: BatchStatement[]): Promise<{ changes: number; lastIds: number[] }> {
+  let changes = 0;
+  const lastIds: number[] = [];
+
+  for (const { statement, values } of statements) {
+    const result = await db.run(statement, values);
+    changes += result.changes;
+    lastIds.push(result.lastId);
+  }
+
+  return { changes, lastIds };
+}
+
+class DatabaseService implements DbExecutor {
   private sqlite: SQLiteConnection;
   private db: SQLiteDBConnection | null = null;
   private platform: string;
   private initialized = false;
+  private writeLock: Promise<void> = Promise.resolve();
 
   constructor() {
     this.sqlite = new SQLiteConnection(CapacitorSQLite);
@@ -60,28 +88,62 @@ class DatabaseService {
   }
 
   async execute(statement: string): Promise<void> {
-    const db = await this.getDb();
-    await db.execute(statement);
-
-    // Persist to IndexedDB on web platform
-    if (this.platform === 'web') {
-      await this.sqlite.saveToStore(DB_NAME);
-    }
+    await this.exclusive(async () => {
+      const db = await this.getDb();
+      await db.execute(statement);
+      // Persist to IndexedDB on web platform
+      await this.saveToStore();
+    });
   }
 
   async run(statement: string, values?: unknown[]): Promise<{ changes: number; lastId: number }> {
-    const db = await this.getDb();
-    const result = await db.run(statement, values);
+    return this.exclusive(async () => {
+      const result = await this.runStatement(await this.getDb(), statement, values, true);
+      // Persist to IndexedDB on web platform
+      await this.saveToStore();
+      return result;
+    });
+  }
 
-    // Persist to IndexedDB on web platform
-    if (this.platform === 'web') {
-      await this.sqlite.saveToStore(DB_NAME);
-    }
+  // Run fn inside a single transaction: all writes commit together or roll back
+  // together, and the web store is persisted once at the end.
+  // Writes inside fn go through tx - calling tx.transaction() joins the open transaction.
+  // Any other write waits until this one has committed or rolled back.
+  async transaction<T>(fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      const db = await this.getDb();
+      await db.beginTransaction();
+
+      const tx: DbExecutor = {
+        run: (statement, values) => this.runStatement(db, statement, values, false),
+        execute: statement => db.execute(statement, false).then(() => undefined),
+        query: (statement, values) => this.query(statement, values),
+        executeBatch: statements => runBatch(tx, statements),
+        transaction: inner => inner(tx)
+      };
+
+      try {
+        const result = await fn(tx);
+        await db.commitTransaction();
+        return result;
+      } catch (error) {
+        try {
+          if ((await db.isTransactionActive()).result) {
+            await db.rollbackTransaction();
+          }
+        } catch (rollbackError) {
+          console.error('Transaction rollback error:', rollbackError);
+        }
+        throw error;
+      } finally {
+        await this.saveToStore();
+      }
+    });
+  }
 
-    return {
-      changes: result.changes?.changes || 0,
-      lastId: result.changes?.lastId || 0
-    };
+  // Run a list of write statements all-or-nothing
+  async executeBatch(statements: BatchStatement[]): Promise<{ changes: number; lastIds: number[] }> {
+    return this.transaction(tx => runBatch(tx, statements));
   }
 
   async query<T = unknown>(statement: string, values?: unknown[]): Promise<T[]> {
@@ -90,6 +152,30 @@ class DatabaseService {
     return (result.values || []) as T[];
   }
 
+  private async runStatement(
+    db: SQLiteDBConnection,
+    statement: string,
+    values: unknown[] | undefined,
+    transaction: boolean
+  ): Promise<{ changes: number; lastId: number }> {
+    const result = await db.run(statement, values, transaction);
+    return {
+      changes: result.changes?.changes || 0,
+      lastId: result.changes?.lastId || 0
+    };
+  }
+
+  // Writes and transactions take turns on the one connection, so an unrelated
+  // write can't land inside someone else's transaction
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.writeLock.then(fn);
+    this.writeLock = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
   async close(): Promise<void> {
     if (this.db) {
       await this.sqlite.closeConnection(DB_NAME, false);
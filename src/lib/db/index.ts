@@ -1,5 +1,9 @@
 // Database module exports
 export { database } from './database';
+export type { BatchStatement, DbExecutor } from './database';
 export { initializeSchema, SCHEMA, SHIFTS } from './schema';
-export type { User, RatedJob, Entry, Document, ShareGroup, TimeOff, PeriodSummary } from './schema';
-export { userQueries, ratedJobQueries, entryQueries } from './queries';
+export { runMigrations, getSchemaVersion, MigrationError, MIGRATIONS } from './migrations';
+export type { Migration } from './migrations';
+export type { User, RatedJob, Entry, Document, ShareGroup, TimeOff, TimeOffType, TimeOffEntitlement, PeriodSummary, PayRate, EarningsSource, ImportBatch, ImportBatchItem, ImportSource, PaystubReview, PaystubDiscrepancyKind, PayPeriod, CareerAdjustment, AIParseCacheEntry, AIUsage, StatHolidayRecord, StatHolidayVersion, StatHolidayVersionSource } from './schema';
+export { userQueries, ratedJobQueries, entryQueries, payRateQueries, importBatchQueries, ImportRollbackError, documentQueries, paystubReviewQueries, payPeriodQueries, careerAdjustmentQueries, aiParseCacheQueries, aiUsageQueries, statHolidayQueries } from './queries';
+export type { EntryRecalcFilter } from './queries';
@@ -0,0 +1,339 @@
+import { database, type DbExecutor } from './database';
+import type { StatHolidayRecord } from './schema';
+
+// Versioned schema migrations
+// SCHEMA in schema.ts is the baseline (version 0). Every later change to the
+// database goes here as a new numbered migration - never edit one that has shipped.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: DbExecutor) => Promise<void>; // Runs inside the migration's transaction
+}
+
+// Thrown when a migration fails. The failed migration is rolled back, so the
+// database stays at the last successfully applied version.
+export class MigrationError extends Error {
+  constructor(
+    public readonly version: number,
+    public readonly migrationName: string,
+    public readonly cause: unknown
+  ) {
+    super(
+      `Migration ${version} (${migrationName}) failed: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = 'MigrationError';
+  }
+}
+
+// Helper: check whether a table already has a column
+async function hasColumn(db: DbExecutor, table: string, column: string): Promise<boolean> {
+  const columns = await db.query<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.some(col => col.name === column);
+}
+
+// Ordered list of migrations - versions must be unique and increasing
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'add_user_anthropic_api_key',
+    async up(db) {
+      // Databases created before the column was added to SCHEMA don't have it
+      if (!(await hasColumn(db, 'user', 'anthropic_api_key'))) {
+        await db.execute(`ALTER TABLE user ADD COLUMN anthropic_api_key TEXT`);
+      }
+    }
+  },
+  {
+    version: 2,
+    name: 'create_pay_rates',
+    async up(db) {
+      await db.execute(`
+        CREATE TABLE IF NOT EXISTS pay_rates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          shift_type TEXT NOT NULL CHECK(shift_type IN ('day', 'afternoon', 'graveyard')),
+          rate REAL NOT NULL,
+          effective_from TEXT NOT NULL,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(shift_type, effective_from)
+        );
+        CREATE INDEX IF NOT EXISTS idx_pay_rates_shift_date ON pay_rates(shift_type, effective_from);
+      `);
+
+      // Seed the history with the profile's current rates. They are the only
+      // rates we know about, so they apply from the first logged shift onwards.
+      for (const shift of ['day', 'afternoon', 'graveyard'] as const) {
+        await db.run(
+          `INSERT OR IGNORE INTO pay_rates (shift_type, rate, effective_from, notes)
+           SELECT ?, ${shift}_rate, COALESCE((SELECT MIN(date) FROM entries), date('now', 'localtime')), 'Rate before history was tracked'
+           FROM user WHERE ${shift}_rate IS NOT NULL AND ${shift}_rate > 0 LIMIT 1`,
+          [shift]
+        );
+      }
+    }
+  },
+  {
+    version: 3,
+    name: 'add_entry_earnings_source_and_bonus_hours',
+    async up(db) {
+      // Where an entry's earnings came from - only 'calculated' earnings may be recalculated
+      if (!(await hasColumn(db, 'entries', 'earnings_source'))) {
+        await db.execute(`ALTER TABLE entries ADD COLUMN earnings_source TEXT NOT NULL DEFAULT 'calculated'`);
+      }
+      // Rated job bonus hours included in entries.hours, so hours worked can be recovered
+      // after the rated job's flags change
+      if (!(await hasColumn(db, 'entries', 'bonus_hours'))) {
+        await db.execute(`ALTER TABLE entries ADD COLUMN bonus_hours REAL NOT NULL DEFAULT 0`);
+      }
+
+      await db.run(
+        `UPDATE entries SET earnings_source = 'paystub' WHERE notes LIKE 'Imported from paystub%' AND earnings IS NOT NULL`
+      );
+      await db.run(
+        `UPDATE entries SET earnings_source = 'import'
+         WHERE notes LIKE 'Imported from %' AND notes NOT LIKE 'Imported from paystub%' AND earnings IS NOT NULL`
+      );
+
+      // Best guess for existing rows: the rated job's current flags (1h extra, 1h big, 0.5h meal)
+      await db.run(
+        `UPDATE entries SET bonus_hours = COALESCE((
+           SELECT has_extra_hour * 1 + is_big_hour * 1 + has_meal_hour * 0.5
+           FROM rated_jobs WHERE rated_jobs.id = entries.rated_job_id
+         ), 0)
+         WHERE job_type = 'rated'`
+      );
+    }
+  },
+  {
+    version: 4,
+    name: 'add_user_pay_rules',
+    async up(db) {
+      // JSON pay rules for the profile's collective agreement; NULL = defaults
+      if (!(await hasColumn(db, 'user', 'pay_rules'))) {
+        await db.execute(`ALTER TABLE user ADD COLUMN pay_rules TEXT`);
+      }
+    }
+  },
+  {
+    version: 5,
+    name: 'create_import_batches',
+    async up(db) {
+      await db.execute(`
+        CREATE TABLE IF NOT EXISTS import_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          source TEXT NOT NULL CHECK(source IN ('csv', 'timesheet', 'paystub')),
+          file_name TEXT,
+          added_count INTEGER NOT NULL DEFAULT 0,
+          overwritten_count INTEGER NOT NULL DEFAULT 0,
+          skipped_count INTEGER NOT NULL DEFAULT 0,
+          rolled_back_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE IF NOT EXISTS import_batch_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          batch_id INTEGER NOT NULL REFERENCES import_batches(id) ON DELETE CASCADE,
+          entry_id INTEGER NOT NULL,
+          action TEXT NOT NULL CHECK(action IN ('add', 'overwrite')),
+          previous TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_import_batch_items_batch ON import_batch_items(batch_id);
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'create_paystub_reviews',
+    async up(db) {
+      await db.execute(`
+        CREATE TABLE IF NOT EXISTS paystub_reviews (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+          date TEXT NOT NULL,
+          kind TEXT NOT NULL CHECK(kind IN ('underpaid', 'wrong_rate', 'missing_shift', 'unpaid_shift')),
+          status TEXT NOT NULL CHECK(status IN ('disputed', 'accepted')),
+          note TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(document_id, date, kind)
+        );
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: 'create_pay_periods',
+    async up(db) {
+      await db.execute(`
+        CREATE TABLE IF NOT EXISTS pay_periods (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          start_date TEXT NOT NULL UNIQUE,
+          end_date TEXT NOT NULL,
+          pay_date TEXT NOT NULL,
+          document_id INTEGER REFERENCES documents(id) ON DELETE SET NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_pay_periods_document ON pay_periods(document_id);
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: 'career_hours_ledger',
+    async up(db) {
+      // Career hours are derived from an opening balance, logged entries and this
+      // ledger. The old career_hours total summed pay stub hours that were usually
+      // logged as entries too, so it isn't carried over.
+      if (!(await hasColumn(db, 'user', 'career_opening_hours'))) {
+        await db.execute(`ALTER TABLE user ADD COLUMN career_opening_hours REAL NOT NULL DEFAULT 0`);
+      }
+      if (!(await hasColumn(db, 'user', 'career_opening_date'))) {
+        await db.execute(`ALTER TABLE user ADD COLUMN career_opening_date TEXT`);
+      }
+      await db.execute(`
+        CREATE TABLE IF NOT EXISTS career_adjustments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          hours REAL NOT NULL,
+          reason TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'add_user_ai_settings',
+    async up(db) {
+      // JSON AISettings - provider order and the local model endpoint
+      if (!(await hasColumn(db, 'user', 'ai_settings'))) {
+        await db.execute(`ALTER TABLE user ADD COLUMN ai_settings TEXT`);
+      }
+    }
+  },
+  {
+    version: 10,
+    name: 'ai_parse_cache_and_usage',
+    async up(db) {
+      await db.execute(`
+        CREATE TABLE IF NOT EXISTS ai_parse_cache (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          file_hash TEXT NOT NULL,
+          task TEXT NOT NULL,
+          response TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(file_hash, task)
+        );
+        CREATE TABLE IF NOT EXISTS ai_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          input_tokens INTEGER,
+          output_tokens INTEGER,
+          cached INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'stat_holiday_versions',
+    async up(db) {
+      await db.execute(`
+        CREATE TABLE IF NOT EXISTS stat_holiday_versions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          year INTEGER NOT NULL,
+          source TEXT NOT NULL,
+          holidays TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_stat_holiday_versions_year ON stat_holiday_versions(year);
+      `);
+      // Schedules saved before versioning become the first version of their year
+      const rows = await db.query<StatHolidayRecord>('SELECT * FROM stat_holidays ORDER BY date');
+      const byYear = new Map<number, StatHolidayRecord[]>();
+      for (const row of rows) {
+        byYear.set(row.year, [...(byYear.get(row.year) || []), row]);
+      }
+      for (const [year, holidays] of byYear) {
+        await db.run(
+          'INSERT INTO stat_holiday_versions (year, source, holidays) VALUES (?, ?, ?)',
+          [year, 'existing', JSON.stringify(holidays.map(({ id, created_at, ...holiday }) => holiday))]
+        );
+      }
+    }
+  },
+  {
+    version: 12,
+    name: 'time_off_ranges_and_entitlements',
+    async up(db) {
+      // Half days are 0.5; days booked together share a range_id so they can be edited as one
+      if (!(await hasColumn(db, 'time_off', 'amount'))) {
+        await db.execute(`ALTER TABLE time_off ADD COLUMN amount REAL NOT NULL DEFAULT 1`);
+      }
+      if (!(await hasColumn(db, 'time_off', 'range_id'))) {
+        await db.execute(`ALTER TABLE time_off ADD COLUMN range_id TEXT`);
+      }
+      await db.execute(`
+        CREATE INDEX IF NOT EXISTS idx_time_off_range ON time_off(range_id);
+        CREATE TABLE IF NOT EXISTS time_off_entitlements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          year INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          days REAL NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(year, type)
+        );
+      `);
+    }
+  }
+];
+
+async function ensureVersionTable(): Promise<void> {
+  await database.execute(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+}
+
+// Get the highest applied migration version (0 = baseline schema only)
+export async function getSchemaVersion(): Promise<number> {
+  await ensureVersionTable();
+  const result = await database.query<{ version: number | null }>(
+    'SELECT MAX(version) as version FROM schema_version'
+  );
+  return result[0]?.version || 0;
+}
+
+// Apply every pending migration in order, each inside its own transaction
+export async function runMigrations(): Promise<void> {
+  const currentVersion = await getSchemaVersion();
+
+  const pending = MIGRATIONS
+    .filter(m => m.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      await database.transaction(async tx => {
+        await migration.up(tx);
+        await tx.run(
+          'INSERT INTO schema_version (version, name) VALUES (?, ?)',
+          [migration.version, migration.name]
+        );
+      });
+      console.log(`Migration ${migration.version} applied: ${migration.name}`);
+    } catch (error) {
+      console.error(`Migration ${migration.version} (${migration.name}) failed:`, error);
+      throw new MigrationError(migration.version, migration.name, error);
+    }
+  }
+}
@@ -1,5 +1,22 @@
-import { database } from './database';
-import type { User, RatedJob, Entry, StatHolidayRecord } from './schema';
+import { database, type DbExecutor } from './database';
+import type {
+  User,
+  RatedJob,
+  Entry,
+  PayRate,
+  StatHolidayRecord,
+  StatHolidayVersion,
+  StatHolidayVersionSource,
+  ImportBatch,
+  ImportBatchItem,
+  PaystubReview,
+  PaystubDiscrepancyKind,
+  PayPeriod,
+  CareerAdjustment,
+  AIParseCacheEntry,
+  AIUsage,
+  Document
+} from './schema';
 
 // User queries
 export const userQueries = {
@@ -84,6 +101,14 @@ export const userQueries = {
       fields.push('career_hours = ?');
       values.push(user.career_hours);
     }
+    if (user.career_opening_hours !== undefined) {
+      fields.push('career_opening_hours = ?');
+      values.push(user.career_opening_hours);
+    }
+    if (user.career_opening_date !== undefined) {
+      fields.push('career_opening_date = ?');
+      values.push(user.career_opening_date);
+    }
     if (user.gemini_api_key !== undefined) {
       fields.push('gemini_api_key = ?');
       values.push(user.gemini_api_key);
@@ -92,6 +117,14 @@ export const userQueries = {
       fields.push('anthropic_api_key = ?');
       values.push(user.anthropic_api_key);
     }
+    if (user.pay_rules !== undefined) {
+      fields.push('pay_rules = ?');
+      values.push(user.pay_rules);
+    }
+    if (user.ai_settings !== undefined) {
+      fields.push('ai_settings = ?');
+      values.push(user.ai_settings);
+    }
 
     if (fields.length > 0) {
       values.push(user.id);
@@ -173,6 +206,63 @@ export const ratedJobQueries = {
   }
 };
 
+// Pay rate history queries
+export const payRateQueries = {
+  async getAll(): Promise<PayRate[]> {
+    return database.query<PayRate>(
+      'SELECT * FROM pay_rates ORDER BY effective_from DESC, shift_type'
+    );
+  },
+
+  // Add a rate change; a second change for the same shift and date replaces the first
+  async upsert(rate: Omit<PayRate, 'id' | 'created_at'>, db: DbExecutor = database): Promise<void> {
+    await db.run(
+      `INSERT OR REPLACE INTO pay_rates (shift_type, rate, effective_from, notes)
+       VALUES (?, ?, ?, ?)`,
+      [rate.shift_type, rate.rate, rate.effective_from, rate.notes]
+    );
+  },
+
+  async upsertMany(rates: Omit<PayRate, 'id' | 'created_at'>[]): Promise<void> {
+    await database.transaction(async tx => {
+      for (const rate of rates) {
+        await this.upsert(rate, tx);
+      }
+    });
+  },
+
+  async delete(id: number): Promise<void> {
+    await database.run('DELETE FROM pay_rates WHERE id = ?', [id]);
+  }
+};
+
+const ENTRY_INSERT_SQL = `INSERT INTO entries (date, shift_type, job_type, rated_job_id, hall_job_name, hours, location, ship, notes, earnings, earnings_source, bonus_hours)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+function entryInsertValues(entry: Omit<Entry, 'id' | 'created_at'>): unknown[] {
+  return [
+    entry.date,
+    entry.shift_type,
+    entry.job_type,
+    entry.rated_job_id,
+    entry.hall_job_name,
+    entry.hours,
+    entry.location,
+    entry.ship,
+    entry.notes,
+    entry.earnings,
+    entry.earnings_source,
+    entry.bonus_hours
+  ];
+}
+
+export interface EntryRecalcFilter {
+  startDate?: string;
+  endDate?: string;
+  ratedJobId?: number | null;
+  shiftType?: Entry['shift_type'] | null;
+}
+
 // Entries queries
 export const entryQueries = {
   async getAll(): Promise<Entry[]> {
@@ -190,35 +280,28 @@ export const entryQueries = {
     return results[0] || null;
   },
 
-  async getByDateRange(startDate: string, endDate: string): Promise<Entry[]> {
-    const results = await database.query<Entry>(
+  async getByDateRange(startDate: string, endDate: string, db: DbExecutor = database): Promise<Entry[]> {
+    const results = await db.query<Entry>(
       'SELECT * FROM entries WHERE date >= ? AND date <= ? ORDER BY date DESC',
       [startDate, endDate]
     );
     return results;
   },
 
-  async create(entry: Omit<Entry, 'id' | 'created_at'>): Promise<number> {
-    const result = await database.run(
-      `INSERT INTO entries (date, shift_type, job_type, rated_job_id, hall_job_name, hours, location, ship, notes, earnings)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        entry.date,
-        entry.shift_type,
-        entry.job_type,
-        entry.rated_job_id,
-        entry.hall_job_name,
-        entry.hours,
-        entry.location,
-        entry.ship,
-        entry.notes,
-        entry.earnings
-      ]
-    );
+  async create(entry: Omit<Entry, 'id' | 'created_at'>, db: DbExecutor = database): Promise<number> {
+    const result = await db.run(ENTRY_INSERT_SQL, entryInsertValues(entry));
     return result.lastId;
   },
 
-  async update(entry: Partial<Entry> & { id: number }): Promise<void> {
+  // Insert many entries all-or-nothing (used by importers)
+  async createMany(entries: Omit<Entry, 'id' | 'created_at'>[], db: DbExecutor = database): Promise<number[]> {
+    const result = await db.executeBatch(
+      entries.map(entry => ({ statement: ENTRY_INSERT_SQL, values: entryInsertValues(entry) }))
+    );
+    return result.lastIds;
+  },
+
+  async update(entry: Partial<Entry> & { id: number }, db: DbExecutor = database): Promise<void> {
     const fields: string[] = [];
     const values: unknown[] = [];
 
@@ -262,18 +345,67 @@ export const entryQueries = {
       fields.push('earnings = ?');
       values.push(entry.earnings);
     }
+    if (entry.earnings_source !== undefined) {
+      fields.push('earnings_source = ?');
+      values.push(entry.earnings_source);
+    }
+    if (entry.bonus_hours !== undefined) {
+      fields.push('bonus_hours = ?');
+      values.push(entry.bonus_hours);
+    }
 
     if (fields.length > 0) {
       values.push(entry.id);
-      await database.run(
+      await db.run(
         `UPDATE entries SET ${fields.join(', ')} WHERE id = ?`,
         values
       );
     }
   },
 
-  async delete(id: number): Promise<void> {
-    await database.run('DELETE FROM entries WHERE id = ?', [id]);
+  async delete(id: number, db: DbExecutor = database): Promise<void> {
+    await db.run('DELETE FROM entries WHERE id = ?', [id]);
+  },
+
+  // Entries matching a recalculation filter; any omitted field matches everything
+  async getForRecalculation(filter: EntryRecalcFilter): Promise<Entry[]> {
+    const where: string[] = [];
+    const values: unknown[] = [];
+
+    if (filter.startDate) {
+      where.push('date >= ?');
+      values.push(filter.startDate);
+    }
+    if (filter.endDate) {
+      where.push('date <= ?');
+      values.push(filter.endDate);
+    }
+    if (filter.ratedJobId != null) {
+      where.push('rated_job_id = ?');
+      values.push(filter.ratedJobId);
+    }
+    if (filter.shiftType) {
+      where.push('shift_type = ?');
+      values.push(filter.shiftType);
+    }
+
+    return database.query<Entry>(
+      `SELECT * FROM entries ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY date`,
+      values
+    );
+  },
+
+  // Write recalculated pay for many entries in one transaction
+  async updatePayMany(
+    updates: Array<Pick<Entry, 'id' | 'hours' | 'bonus_hours' | 'earnings'>>,
+    db: DbExecutor = database
+  ): Promise<void> {
+    await db.executeBatch(
+      updates.map(u => ({
+        statement: 'UPDATE entries SET hours = ?, bonus_hours = ?, earnings = ? WHERE id = ?',
+        values: [u.hours, u.bonus_hours, u.earnings, u.id]
+      }))
+    );
   },
 
   // Aggregate queries for stats
@@ -309,6 +441,302 @@ export const entryQueries = {
       [startDate, endDate]
     );
     return results[0]?.count || 0;
+  },
+
+  // Distinct dates with at least one shift, oldest first
+  async getWorkDates(startDate: string, endDate: string): Promise<string[]> {
+    const results = await database.query<{ date: string }>(
+      'SELECT DISTINCT date FROM entries WHERE date >= ? AND date <= ? ORDER BY date',
+      [startDate, endDate]
+    );
+    return results.map(r => r.date);
+  }
+};
+
+// Import batch queries
+// Thrown when undoing an import would undo it twice or put back data a later import replaced
+export class ImportRollbackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportRollbackError';
+  }
+}
+
+export const importBatchQueries = {
+  async getAll(): Promise<ImportBatch[]> {
+    return database.query<ImportBatch>('SELECT * FROM import_batches ORDER BY created_at DESC, id DESC');
+  },
+
+  async getItems(batchId: number, db: DbExecutor = database): Promise<ImportBatchItem[]> {
+    return db.query<ImportBatchItem>(
+      'SELECT * FROM import_batch_items WHERE batch_id = ? ORDER BY id',
+      [batchId]
+    );
+  },
+
+  // Write an import and its undo log in one transaction; returns the batch id
+  async apply(
+    batch: Pick<ImportBatch, 'source' | 'file_name' | 'skipped_count'>,
+    additions: Omit<Entry, 'id' | 'created_at'>[],
+    overwrites: Array<{ previous: Entry; entry: Omit<Entry, 'id' | 'created_at'> }>,
+    db: DbExecutor = database
+  ): Promise<number> {
+    return db.transaction(async tx => {
+      const { lastId: batchId } = await tx.run(
+        `INSERT INTO import_batches (source, file_name, added_count, overwritten_count, skipped_count)
+         VALUES (?, ?, ?, ?, ?)`,
+        [batch.source, batch.file_name, additions.length, overwrites.length, batch.skipped_count]
+      );
+
+      for (const entry of additions) {
+        const entryId = await entryQueries.create(entry, tx);
+        await tx.run(
+          `INSERT INTO import_batch_items (batch_id, entry_id, action, previous) VALUES (?, ?, 'add', NULL)`,
+          [batchId, entryId]
+        );
+      }
+      for (const { previous, entry } of overwrites) {
+        await entryQueries.update({ ...entry, id: previous.id }, tx);
+        await tx.run(
+          `INSERT INTO import_batch_items (batch_id, entry_id, action, previous) VALUES (?, ?, 'overwrite', ?)`,
+          [batchId, previous.id, JSON.stringify(previous)]
+        );
+      }
+
+      return batchId;
+    });
+  },
+
+  // Dates an undo would touch: where the batch's entries are now and where overwritten ones were
+  async getTouchedDates(batchId: number, db: DbExecutor = database): Promise<string[]> {
+    const rows = await db.query<{ date: string | null; previous: string | null }>(
+      `SELECT e.date, i.previous FROM import_batch_items i
+       LEFT JOIN entries e ON e.id = i.entry_id
+       WHERE i.batch_id = ?`,
+      [batchId]
+    );
+    return rows
+      .flatMap(r => [r.date, r.previous ? (JSON.parse(r.previous) as Entry).date : null])
+      .filter((d): d is string => !!d);
+  },
+
+  // Later imports, not undone, that changed an entry this batch touched
+  async getLaterConflicts(batchId: number, db: DbExecutor = database): Promise<ImportBatch[]> {
+    return db.query<ImportBatch>(
+      `SELECT DISTINCT b.* FROM import_batches b
+       JOIN import_batch_items later ON later.batch_id = b.id
+       JOIN import_batch_items mine ON mine.entry_id = later.entry_id AND mine.batch_id = ?
+       WHERE b.id > ? AND b.rolled_back_at IS NULL
+       ORDER BY b.id DESC`,
+      [batchId, batchId]
+    );
+  },
+
+  // Undo a batch: delete the entries it added and put back the ones it overwrote.
+  // Returns every date touched so calculated pay on those days can be refreshed.
+  async rollback(batchId: number, db: DbExecutor = database): Promise<string[]> {
+    return db.transaction(async tx => {
+      const [batch] = await tx.query<ImportBatch>('SELECT * FROM import_batches WHERE id = ?', [batchId]);
+      if (!batch) throw new ImportRollbackError('This import no longer exists.');
+      if (batch.rolled_back_at) throw new ImportRollbackError('This import has already been undone.');
+
+      // Newer imports first, or their data would be overwritten with what was there before them
+      const later = await this.getLaterConflicts(batchId, tx);
+      if (later.length > 0) {
+        const names = later.map(b => b.file_name || `${b.source} import`).join(', ');
+        throw new ImportRollbackError(`A later import changed the same entries. Undo it first: ${names}`);
+      }
+
+      const dates: string[] = [];
+
+      for (const item of await this.getItems(batchId, tx)) {
+        const current = await entryQueries.getById(item.entry_id);
+        // Entries deleted by hand since the import stay deleted
+        if (!current) continue;
+        dates.push(current.date);
+
+        if (item.action === 'add') {
+          await entryQueries.delete(item.entry_id, tx);
+        } else if (item.previous) {
+          const previous = JSON.parse(item.previous) as Entry;
+          await entryQueries.update(previous, tx);
+          dates.push(previous.date);
+        }
+      }
+
+      await tx.run(
+        'UPDATE import_batches SET rolled_back_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [batchId]
+      );
+      return dates;
+    });
+  },
+
+  // Forget every import - used when a restore replaces the entries the logs point at
+  async clear(db: DbExecutor = database): Promise<void> {
+    await db.execute('DELETE FROM import_batch_items; DELETE FROM import_batches;');
+  }
+};
+
+// Document queries - the documents store keeps the list; imports write through here inside their transaction
+export const documentQueries = {
+  async create(doc: Omit<Document, 'id' | 'created_at'>, db: DbExecutor = database): Promise<number> {
+    const result = await db.run(
+      `INSERT INTO documents (name, type, file_path, file_size, mime_type, category, extracted_data, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [doc.name, doc.type, doc.file_path, doc.file_size, doc.mime_type, doc.category, doc.extracted_data, doc.notes]
+    );
+    return result.lastId;
+  }
+};
+
+// Pay stub review queries - one decision per document, date and discrepancy kind
+export const paystubReviewQueries = {
+  async getAll(): Promise<PaystubReview[]> {
+    return database.query<PaystubReview>('SELECT * FROM paystub_reviews ORDER BY date');
+  },
+
+  async set(
+    review: Pick<PaystubReview, 'document_id' | 'date' | 'kind' | 'status' | 'note'>
+  ): Promise<void> {
+    await database.run(
+      `INSERT INTO paystub_reviews (document_id, date, kind, status, note)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(document_id, date, kind) DO UPDATE SET
+         status = excluded.status, note = excluded.note, updated_at = CURRENT_TIMESTAMP`,
+      [review.document_id, review.date, review.kind, review.status, review.note]
+    );
+  },
+
+  async remove(documentId: number, date: string, kind: PaystubDiscrepancyKind): Promise<void> {
+    await database.run(
+      'DELETE FROM paystub_reviews WHERE document_id = ? AND date = ? AND kind = ?',
+      [documentId, date, kind]
+    );
+  },
+
+  async removeForDocument(documentId: number): Promise<void> {
+    await database.run('DELETE FROM paystub_reviews WHERE document_id = ?', [documentId]);
+  }
+};
+
+// Career hours ledger queries
+export const careerAdjustmentQueries = {
+  async getAll(): Promise<CareerAdjustment[]> {
+    return database.query<CareerAdjustment>('SELECT * FROM career_adjustments ORDER BY date DESC, id DESC');
+  },
+
+  async insert(adjustment: Pick<CareerAdjustment, 'date' | 'hours' | 'reason'>): Promise<number> {
+    const result = await database.run(
+      'INSERT INTO career_adjustments (date, hours, reason) VALUES (?, ?, ?)',
+      [adjustment.date, adjustment.hours, adjustment.reason]
+    );
+    return result.lastId;
+  },
+
+  // Hours logged as entries, from the opening balance date on
+  async getLoggedHours(fromDate: string | null): Promise<number> {
+    const [result] = await database.query<{ hours: number | null }>(
+      'SELECT SUM(hours) as hours FROM entries WHERE date >= ?',
+      [fromDate || '0000-01-01']
+    );
+    return result?.hours || 0;
+  }
+};
+
+// Pay period queries
+export const payPeriodQueries = {
+  async getAll(): Promise<PayPeriod[]> {
+    return database.query<PayPeriod>('SELECT * FROM pay_periods ORDER BY start_date DESC');
+  },
+
+  // Add missing weeks; existing ones keep their pay stub but pick up a changed pay day
+  async upsert(periods: Array<Pick<PayPeriod, 'start_date' | 'end_date' | 'pay_date'>>, db: DbExecutor = database): Promise<void> {
+    if (periods.length === 0) return;
+    await db.executeBatch(
+      periods.map(p => ({
+        statement: `INSERT INTO pay_periods (start_date, end_date, pay_date) VALUES (?, ?, ?)
+                    ON CONFLICT(start_date) DO UPDATE SET end_date = excluded.end_date, pay_date = excluded.pay_date`,
+        values: [p.start_date, p.end_date, p.pay_date]
+      }))
+    );
+  },
+
+  // Weeks left over from a different pay week start day
+  async removeOffCycle(weekStartDay: number, db: DbExecutor = database): Promise<void> {
+    await db.run(
+      "DELETE FROM pay_periods WHERE CAST(strftime('%w', start_date) AS INTEGER) != ?",
+      [weekStartDay]
+    );
+  },
+
+  async link(id: number, documentId: number | null, db: DbExecutor = database): Promise<void> {
+    await db.run('UPDATE pay_periods SET document_id = ? WHERE id = ?', [documentId, id]);
+  },
+
+  async unlinkDocument(documentId: number): Promise<void> {
+    await database.run('UPDATE pay_periods SET document_id = NULL WHERE document_id = ?', [documentId]);
+  }
+};
+
+// AI parse cache queries
+export const aiParseCacheQueries = {
+  async get(fileHash: string, task: string): Promise<AIParseCacheEntry | null> {
+    const [entry] = await database.query<AIParseCacheEntry>(
+      'SELECT * FROM ai_parse_cache WHERE file_hash = ? AND task = ?',
+      [fileHash, task]
+    );
+    return entry || null;
+  },
+
+  async put(entry: Pick<AIParseCacheEntry, 'file_hash' | 'task' | 'response' | 'provider' | 'model'>): Promise<void> {
+    await database.run(
+      `INSERT INTO ai_parse_cache (file_hash, task, response, provider, model) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(file_hash, task) DO UPDATE SET response = excluded.response, provider = excluded.provider,
+         model = excluded.model, created_at = CURRENT_TIMESTAMP`,
+      [entry.file_hash, entry.task, entry.response, entry.provider, entry.model]
+    );
+  },
+
+  async count(): Promise<number> {
+    const [result] = await database.query<{ count: number }>('SELECT COUNT(*) as count FROM ai_parse_cache');
+    return result?.count || 0;
+  },
+
+  async clear(): Promise<void> {
+    await database.run('DELETE FROM ai_parse_cache');
+  }
+};
+
+// AI usage queries
+export const aiUsageQueries = {
+  async insert(usage: Omit<AIUsage, 'id' | 'created_at'>): Promise<void> {
+    await database.run(
+      'INSERT INTO ai_usage (task, provider, model, input_tokens, output_tokens, cached) VALUES (?, ?, ?, ?, ?, ?)',
+      [usage.task, usage.provider, usage.model, usage.input_tokens, usage.output_tokens, usage.cached]
+    );
+  },
+
+  // Calls and tokens per local month and model, newest month first
+  async getMonthlyTotals(): Promise<Array<{
+    month: string;
+    provider: string;
+    model: string;
+    calls: number;
+    cached_calls: number;
+    input_tokens: number;
+    output_tokens: number;
+  }>> {
+    return database.query(
+      `SELECT strftime('%Y-%m', created_at, 'localtime') as month, provider, model,
+              SUM(CASE WHEN cached = 0 THEN 1 ELSE 0 END) as calls,
+              SUM(cached) as cached_calls,
+              COALESCE(SUM(input_tokens), 0) as input_tokens,
+              COALESCE(SUM(output_tokens), 0) as output_tokens
+       FROM ai_usage
+       GROUP BY month, provider, model
+       ORDER BY month DESC, provider, model`
+    );
   }
 };
 
@@ -329,12 +757,12 @@ export const statHolidayQueries = {
     return results;
   },
 
-  async addMany(holidays: Omit<StatHolidayRecord, 'id' | 'created_at'>[]): Promise<void> {
-    for (const holiday of holidays) {
-      await database.run(
-        `INSERT INTO stat_holidays (year, name, date, qualification_start, qualification_end, pay_date)
+  async addMany(holidays: Omit<StatHolidayRecord, 'id' | 'created_at'>[], db: DbExecutor = database): Promise<void> {
+    await db.executeBatch(
+      holidays.map(holiday => ({
+        statement: `INSERT INTO stat_holidays (year, name, date, qualification_start, qualification_end, pay_date)
          VALUES (?, ?, ?, ?, ?, ?)`,
-        [
+        values: [
           holiday.year,
           holiday.name,
           holiday.date,
@@ -342,14 +770,39 @@ export const statHolidayQueries = {
           holiday.qualification_end,
           holiday.pay_date
         ]
+      }))
+    );
+  },
+
+  // Replace a year's schedule in one transaction so a failed import keeps the old one.
+  // Every save is also kept as a version, so the schedule it replaced can be restored.
+  async replaceYear(
+    year: number,
+    holidays: Omit<StatHolidayRecord, 'id' | 'created_at'>[],
+    source: StatHolidayVersionSource
+  ): Promise<void> {
+    await database.transaction(async tx => {
+      await tx.run('DELETE FROM stat_holidays WHERE year = ?', [year]);
+      await this.addMany(holidays, tx);
+      await tx.run(
+        'INSERT INTO stat_holiday_versions (year, source, holidays) VALUES (?, ?, ?)',
+        [year, source, JSON.stringify(holidays)]
       );
-    }
+    });
   },
 
+  // Back to the built-in schedule - saved versions are kept
   async deleteByYear(year: number): Promise<void> {
     await database.run('DELETE FROM stat_holidays WHERE year = ?', [year]);
   },
 
+  async getVersions(year: number): Promise<StatHolidayVersion[]> {
+    return database.query<StatHolidayVersion>(
+      'SELECT * FROM stat_holiday_versions WHERE year = ? ORDER BY created_at DESC, id DESC',
+      [year]
+    );
+  },
+
   async hasYear(year: number): Promise<boolean> {
     const results = await database.query<{ count: number }>(
       'SELECT COUNT(*) as count FROM stat_holidays WHERE year = ?',
@@ -1,4 +1,5 @@
 import { database } from './database';
+import { runMigrations } from './migrations';
 
 // SQL schema for DockLogger database
 export const SCHEMA = `
@@ -115,30 +116,14 @@ export async function initializeSchema(): Promise<void> {
   try {
     await database.execute(SCHEMA);
     console.log('Database schema initialized');
-
-    // Run migrations for existing databases
-    await runMigrations();
   } catch (error) {
     console.error('Schema initialization error:', error);
     throw error;
   }
-}
 
-// Run database migrations for schema updates
-async function runMigrations(): Promise<void> {
-  try {
-    // Migration: Add anthropic_api_key column to user table if it doesn't exist
-    const userColumns = await database.query<{ name: string }>(`PRAGMA table_info(user)`);
-    const hasAnthropicKey = userColumns.some(col => col.name === 'anthropic_api_key');
-
-    if (!hasAnthropicKey) {
-      await database.execute(`ALTER TABLE user ADD COLUMN anthropic_api_key TEXT`);
-      console.log('Migration: Added anthropic_api_key column to user table');
-    }
-  } catch (error) {
-    console.error('Migration error:', error);
-    // Don't throw - migrations are best-effort
-  }
+  // Bring existing databases up to the latest version.
+  // A failure here throws a MigrationError so the app can report it.
+  await runMigrations();
 }
 
 // TypeScript types matching the schema
@@ -155,9 +140,13 @@ export interface User {
   graveyard_rate: number | null;
   average_hours_target: number;
   pension_target: number | null;
-  career_hours: number;
+  career_hours: number; // Legacy total from pay stub imports - superseded by the career hours ledger
+  career_opening_hours: number; // Hours worked before career_opening_date
+  career_opening_date: string | null; // Entries before this date are in the opening balance
   gemini_api_key: string | null;
   anthropic_api_key: string | null;
+  pay_rules: string | null; // JSON PayRules, see utils/earnings.ts
+  ai_settings: string | null; // JSON AISettings, see utils/aiProviders.ts
   created_at: string;
 }
 
@@ -182,9 +171,15 @@ export interface Entry {
   ship: string | null;
   notes: string | null;
   earnings: number | null;
+  earnings_source: EarningsSource;
+  bonus_hours: number;
   created_at: string;
 }
 
+// 'calculated' earnings come from the earnings engine and may be recalculated;
+// the rest were entered by hand, read off a paystub or taken from an imported file.
+export type EarningsSource = 'calculated' | 'manual' | 'paystub' | 'import';
+
 export interface Document {
   id: number;
   name: string;
@@ -192,7 +187,7 @@ export interface Document {
   file_path: string;
   file_size: number | null;
   mime_type: string | null;
-  category: 'manning_sheet' | 'toolbox_talk' | 'vacation_pay' | 'pay_stub' | 'timesheet' | 'other' | null;
+  category: 'manning_sheet' | 'toolbox_talk' | 'vacation_pay' | 'pay_stub' | 'timesheet' | 'report' | 'other' | null;
   extracted_data: string | null;
   notes: string | null;
   created_at: string;
@@ -206,14 +201,27 @@ export interface ShareGroup {
   created_at: string;
 }
 
+export type TimeOffType = 'vacation' | 'sick' | 'wcb' | 'bereavement' | 'union_business' | 'jury_duty' | 'unpaid';
+
 export interface TimeOff {
   id: number;
   date: string;
-  type: 'vacation' | 'sick';
+  type: TimeOffType;
+  amount: number; // Days: 1, or 0.5 for a half day
+  range_id: string | null; // Shared by days booked together as one range
   notes: string | null;
   created_at: string;
 }
 
+// Days of a leave type earned for a year
+export interface TimeOffEntitlement {
+  id: number;
+  year: number;
+  type: TimeOffType;
+  days: number;
+  created_at: string;
+}
+
 export interface PeriodSummary {
   id: number;
   period_type: 'half_year' | 'year';
@@ -226,6 +234,97 @@ export interface PeriodSummary {
   created_at: string;
 }
 
+// Hourly rate for one shift type, in effect from effective_from until the next change
+export interface PayRate {
+  id: number;
+  shift_type: 'day' | 'afternoon' | 'graveyard';
+  rate: number;
+  effective_from: string;
+  notes: string | null;
+  created_at: string;
+}
+
+// One run of an importer. Its items are the undo log used to roll the import back.
+export interface ImportBatch {
+  id: number;
+  source: ImportSource;
+  file_name: string | null;
+  added_count: number;
+  overwritten_count: number;
+  skipped_count: number;
+  rolled_back_at: string | null;
+  created_at: string;
+}
+
+export type ImportSource = 'csv' | 'timesheet' | 'paystub';
+
+// previous holds the overwritten entry as JSON; null for entries the import added
+export interface ImportBatchItem {
+  id: number;
+  batch_id: number;
+  entry_id: number;
+  action: 'add' | 'overwrite';
+  previous: string | null;
+}
+
+// A pay stub discrepancy the user has ruled on. Discrepancies themselves are
+// recomputed from the pay stub and entries; only the decision is stored.
+export type PaystubDiscrepancyKind = 'underpaid' | 'wrong_rate' | 'missing_shift' | 'unpaid_shift';
+
+export interface PaystubReview {
+  id: number;
+  document_id: number;
+  date: string;
+  kind: PaystubDiscrepancyKind;
+  status: 'disputed' | 'accepted';
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A manual correction to career hours. Never edited or deleted - a mistake is
+// undone with an opposite adjustment so the ledger stays auditable.
+export interface CareerAdjustment {
+  id: number;
+  date: string;
+  hours: number; // Negative to remove hours
+  reason: string;
+  created_at: string;
+}
+
+// One week of the employer's pay cycle and the pay stub that paid it
+export interface PayPeriod {
+  id: number;
+  start_date: string;
+  end_date: string;
+  pay_date: string; // Expected deposit date
+  document_id: number | null;
+  created_at: string;
+}
+
+// A model's answer for a file already parsed, replayed instead of paying for it again
+export interface AIParseCacheEntry {
+  id: number;
+  file_hash: string; // SHA-256 of the file's data URL
+  task: string;
+  response: string; // Raw model text - checked again on every replay
+  provider: string;
+  model: string;
+  created_at: string;
+}
+
+// One AI call, for the usage and cost view
+export interface AIUsage {
+  id: number;
+  task: string;
+  provider: string;
+  model: string;
+  input_tokens: number | null; // Null when the provider doesn't report usage
+  output_tokens: number | null;
+  cached: number; // 1 = served from the parse cache, free
+  created_at: string;
+}
+
 export interface StatHolidayRecord {
   id: number;
   year: number;
@@ -237,24 +336,16 @@ export interface StatHolidayRecord {
   created_at: string;
 }
 
-// Shift definitions with times and default hours
-export const SHIFTS = {
-  day: {
-    name: 'Day',
-    start: '8:00am',
-    end: '4:30pm',
-    defaultHours: 8
-  },
-  afternoon: {
-    name: 'Afternoon',
-    start: '4:30pm',
-    end: '1:00am',
-    defaultHours: 8
-  },
-  graveyard: {
-    name: 'Graveyard',
-    start: '1:00am',
-    end: '8:00am',
-    defaultHours: 6.5
-  }
-} as const;
+export type StatHolidayVersionSource = 'existing' | 'photo' | 'edited' | 'imported' | 'restored';
+
+// A saved copy of a year's schedule - one per save, so a replaced schedule can be restored
+export interface StatHolidayVersion {
+  id: number;
+  year: number;
+  source: StatHolidayVersionSource;
+  holidays: string; // JSON array of the year's stat_holidays rows, without ids
+  created_at: string;
+}
+
+// Shift definitions live with the pay rules that use them
+export { SHIFTS } from '$lib/constants/shifts';
@@ -0,0 +1,58 @@
+import { derived, get } from 'svelte/store';
+import { user } from './user';
+import { createParseCacheProvider, withUsageTracking } from './aiUsage';
+import {
+  parseAISettings,
+  createAnthropicProvider,
+  createGeminiProvider,
+  createLocalProvider,
+  createFixtureProvider,
+  type AIProvider,
+  type AISettings
+} from '$lib/utils/aiProviders';
+
+// Keys built into the app, used when the profile has none
+const ENV_ANTHROPIC_KEY = import.meta.env.VITE_ANTHROPIC_API_KEY || '';
+const ENV_GEMINI_KEY = import.meta.env.VITE_GEMINI_API_KEY || '';
+
+// URL of a JSON array of AIFixture - when set, every AI call replays fixtures
+// instead of going to the network
+const ENV_AI_FIXTURES = import.meta.env.VITE_AI_FIXTURES || '';
+
+// The profile's AI settings, with defaults filled in
+export const aiSettings = derived(user, ($user) => parseAISettings($user?.ai_settings ?? null));
+
+export async function saveAISettings(settings: AISettings): Promise<void> {
+  await user.update({ ai_settings: JSON.stringify(settings) });
+}
+
+// Build one provider, or null if it isn't set up
+export function getAIProvider(id: AISettings['order'][number]): AIProvider | null {
+  const profile = get(user);
+  const settings = get(aiSettings);
+
+  switch (id) {
+    case 'anthropic': {
+      const key = profile?.anthropic_api_key || ENV_ANTHROPIC_KEY;
+      return key ? createAnthropicProvider(key) : null;
+    }
+    case 'gemini': {
+      const key = profile?.gemini_api_key || ENV_GEMINI_KEY;
+      return key ? createGeminiProvider(key) : null;
+    }
+    case 'local':
+      return settings.localUrl ? createLocalProvider(settings.localUrl, settings.localModel, settings.localApiKey) : null;
+  }
+}
+
+// Providers to try, in the user's order; empty when AI extraction isn't available.
+// Files parsed before are answered from the parse cache first.
+export function getAIProviders(): AIProvider[] {
+  if (ENV_AI_FIXTURES) return [createFixtureProvider(ENV_AI_FIXTURES)];
+
+  const providers = get(aiSettings)
+    .order.map(getAIProvider)
+    .filter((provider): provider is AIProvider => provider !== null);
+  if (providers.length === 0) return [];
+  return [createParseCacheProvider(), ...providers.map(withUsageTracking)];
+}
@@ -0,0 +1,148 @@
+import { aiParseCacheQueries, aiUsageQueries } from '$lib/db';
+import { AI_PROVIDER_NAMES, estimateAICost, type AIProvider, type AIRequest } from '$lib/utils/aiProviders';
+
+export interface AIUsageModel {
+  provider: string;
+  model: string;
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null; // Estimated, US dollars
+}
+
+export interface AIUsageMonth {
+  month: string; // YYYY-MM
+  calls: number;
+  cachedCalls: number; // Answered from the parse cache at no cost
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // Estimated, US dollars
+  unpriced: boolean; // Some calls used a model without a known price
+  models: AIUsageModel[];
+}
+
+// One hash per request - the cache and every provider after it see the same object
+const fileHashes = new WeakMap<AIRequest, Promise<string>>();
+
+// SHA-256 of the request's file, the parse cache key
+function fileHash(request: AIRequest): Promise<string> {
+  let hash = fileHashes.get(request);
+  if (!hash) {
+    hash = crypto.subtle
+      .digest('SHA-256', new TextEncoder().encode(request.file ?? ''))
+      .then(digest => Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join(''));
+    fileHashes.set(request, hash);
+  }
+  return hash;
+}
+
+async function recordUsage(
+  task: string,
+  provider: string,
+  model: string,
+  inputTokens: number | null,
+  outputTokens: number | null,
+  cached: boolean
+): Promise<void> {
+  try {
+    await aiUsageQueries.insert({ task, provider, model, input_tokens: inputTokens, output_tokens: outputTokens, cached: cached ? 1 : 0 });
+  } catch (error) {
+    console.error('Failed to record AI usage:', error);
+  }
+}
+
+// Answers for files parsed before; tried ahead of the paid providers
+export function createParseCacheProvider(): AIProvider {
+  return {
+    id: 'cache',
+    name: AI_PROVIDER_NAMES.cache,
+
+    async complete(request) {
+      if (!request.file) return null;
+      try {
+        const entry = await aiParseCacheQueries.get(await fileHash(request), request.task);
+        if (!entry) return null;
+        await recordUsage(request.task, entry.provider, entry.model, null, null, true);
+        return { text: entry.response, provider: 'cache', model: entry.model, inputTokens: null, outputTokens: null };
+      } catch (error) {
+        console.error('Failed to read AI parse cache:', error);
+        return null;
+      }
+    }
+  };
+}
+
+// Log what each call used, and keep answers about files for the cache.
+// An answer that turns out unusable is replaced the next time a provider reads the file.
+export function withUsageTracking(provider: AIProvider): AIProvider {
+  return {
+    ...provider,
+
+    async complete(request) {
+      const completion = await provider.complete(request);
+      if (!completion) return null;
+
+      await recordUsage(request.task, completion.provider, completion.model, completion.inputTokens, completion.outputTokens, false);
+      if (request.file) {
+        try {
+          await aiParseCacheQueries.put({
+            file_hash: await fileHash(request),
+            task: request.task,
+            response: completion.text,
+            provider: completion.provider,
+            model: completion.model
+          });
+        } catch (error) {
+          console.error('Failed to save AI parse:', error);
+        }
+      }
+      return completion;
+    }
+  };
+}
+
+// Calls, tokens and estimated cost per month, newest first
+export async function getAIUsageByMonth(): Promise<AIUsageMonth[]> {
+  const months = new Map<string, AIUsageMonth>();
+
+  for (const row of await aiUsageQueries.getMonthlyTotals()) {
+    const cost = estimateAICost(row.provider, row.model, row.input_tokens, row.output_tokens);
+    let month = months.get(row.month);
+    if (!month) {
+      month = { month: row.month, calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: false, models: [] };
+      months.set(row.month, month);
+    }
+
+    month.calls += row.calls;
+    month.cachedCalls += row.cached_calls;
+    month.inputTokens += row.input_tokens;
+    month.outputTokens += row.output_tokens;
+    month.cost += cost ?? 0;
+    if (cost === null && row.calls > 0) month.unpriced = true;
+    month.models.push({
+      provider: row.provider,
+      model: row.model,
+      calls: row.calls,
+      cachedCalls: row.cached_calls,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cost
+    });
+  }
+
+  return [...months.values()];
+}
+
+export async function getAIParseCacheCount(): Promise<number> {
+  try {
+    return await aiParseCacheQueries.count();
+  } catch (error) {
+    console.error('Failed to count saved AI answers:', error);
+    return 0;
+  }
+}
+
+export async function clearAIParseCache(): Promise<void> {
+  await aiParseCacheQueries.clear();
+}
@@ -0,0 +1,144 @@
+import { writable, get } from 'svelte/store';
+import { parsePaystubWithAI, parseTimesheetWithAI, type ParsedPaystubData, type ParsedTimesheetEntry } from '$lib/utils/ai';
+import type { ValidationIssue } from '$lib/utils/aiValidation';
+import { runQueue } from '$lib/utils/queue';
+import { getAIProviders } from './aiSettings';
+
+export type BatchKind = 'paystub' | 'timesheet';
+
+export type BatchFileStatus = 'waiting' | 'reading' | 'retrying' | 'done' | 'failed';
+
+export interface BatchFile {
+  id: number;
+  name: string;
+  mimeType: string;
+  dataUrl: string;
+  status: BatchFileStatus;
+  attempts: number;
+  error: string | null;
+  paystub: ParsedPaystubData | null;
+  entries: ParsedTimesheetEntry[] | null;
+  issues: ValidationIssue[];
+}
+
+export interface BatchImportState {
+  kind: BatchKind;
+  files: BatchFile[];
+  running: boolean;
+}
+
+// Two at a time keeps a stack of photos moving without tripping provider rate limits
+const CONCURRENCY = 2;
+const RETRIES = 2;
+
+type ParseResult = Pick<BatchFile, 'paystub' | 'entries' | 'issues'>;
+
+function readFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Provider failures throw so the queue retries them; a clear answer doesn't
+async function parseFile(kind: BatchKind, file: BatchFile): Promise<ParseResult> {
+  const providers = getAIProviders();
+  if (kind === 'paystub') {
+    const result = await parsePaystubWithAI(providers, file.dataUrl);
+    if (!result.success || !result.data || Array.isArray(result.data)) throw new Error(result.error || 'No pay data found');
+    return { paystub: result.data, entries: null, issues: result.issues || [] };
+  }
+
+  const result = await parseTimesheetWithAI(providers, null, file.dataUrl);
+  if (!result.success || !Array.isArray(result.data)) throw new Error(result.error || 'Could not read timesheet');
+  return { paystub: null, entries: result.data, issues: result.issues || [] };
+}
+
+// Files being read for one batch import, and what was read from each.
+// Kept in a store so reading carries on if the user leaves the import screen.
+function createBatchImportStore() {
+  const { subscribe, set, update } = writable<BatchImportState>({ kind: 'paystub', files: [], running: false });
+  let nextId = 1;
+
+  function patch(id: number, changes: Partial<BatchFile>) {
+    update(state => ({ ...state, files: state.files.map(f => (f.id === id ? { ...f, ...changes } : f)) }));
+  }
+
+  async function process(ids: number[]): Promise<void> {
+    const { kind, files } = get({ subscribe });
+    const targets = files.filter(f => ids.includes(f.id));
+    if (targets.length === 0) return;
+
+    update(state => ({ ...state, running: true }));
+    try {
+      await runQueue(
+        targets,
+        file => parseFile(kind, file),
+        {
+          concurrency: CONCURRENCY,
+          retries: RETRIES,
+          onAttempt: (index, attempt) =>
+            patch(targets[index].id, { status: attempt === 1 ? 'reading' : 'retrying', attempts: attempt, error: null })
+        },
+        (index, result) => {
+          const id = targets[index].id;
+          if (!result.ok) {
+            patch(id, { status: 'failed', error: result.error instanceof Error ? result.error.message : 'Could not read file' });
+          } else if (kind === 'timesheet' && result.value.entries?.length === 0) {
+            patch(id, { ...result.value, status: 'failed', error: 'No timesheet entries found' });
+          } else {
+            patch(id, { ...result.value, status: 'done' });
+          }
+        }
+      );
+    } finally {
+      update(state => ({ ...state, running: false }));
+    }
+  }
+
+  return {
+    subscribe,
+
+    // Start a new batch with these files
+    async start(kind: BatchKind, files: File[]): Promise<void> {
+      if (get({ subscribe }).running) return;
+
+      const read = await Promise.all(
+        files.map(async file => ({
+          id: nextId++,
+          name: file.name,
+          mimeType: file.type,
+          dataUrl: await readFile(file),
+          status: 'waiting' as const,
+          attempts: 0,
+          error: null,
+          paystub: null,
+          entries: null,
+          issues: []
+        }))
+      );
+      set({ kind, files: read, running: false });
+      await process(read.map(f => f.id));
+    },
+
+    async retryFailed(): Promise<void> {
+      if (get({ subscribe }).running) return;
+      const failed = get({ subscribe }).files.filter(f => f.status === 'failed');
+      for (const file of failed) patch(file.id, { status: 'waiting', error: null });
+      await process(failed.map(f => f.id));
+    },
+
+    // Leave a file out of the batch, e.g. a photo that can't be read
+    remove(id: number): void {
+      update(state => ({ ...state, files: state.files.filter(f => f.id !== id) }));
+    },
+
+    reset(): void {
+      set({ kind: 'paystub', files: [], running: false });
+    }
+  };
+}
+
+export const batchImport = createBatchImportStore();
@@ -0,0 +1,68 @@
+import { writable, get } from 'svelte/store';
+import { careerAdjustmentQueries } from '$lib/db';
+import type { CareerAdjustment } from '$lib/db';
+import { localToday } from '$lib/utils/dates';
+import { user } from './user';
+
+export interface CareerHoursBreakdown {
+  openingHours: number;
+  openingDate: string | null;
+  loggedHours: number; // Entries on or after the opening date
+  adjustmentHours: number;
+  total: number;
+}
+
+// Manual career hour adjustments, newest first
+function createCareerAdjustmentsStore() {
+  const { subscribe, set } = writable<CareerAdjustment[]>([]);
+
+  return {
+    subscribe,
+
+    async load(): Promise<void> {
+      try {
+        set(await careerAdjustmentQueries.getAll());
+      } catch (error) {
+        console.error('Failed to load career adjustments:', error);
+        set([]);
+      }
+    },
+
+    async add(date: string, hours: number, reason: string): Promise<void> {
+      await careerAdjustmentQueries.insert({ date, hours, reason });
+      await this.load();
+    },
+
+    // Cancel an adjustment with an opposite entry, keeping both on record
+    async reverse(adjustment: CareerAdjustment): Promise<void> {
+      await careerAdjustmentQueries.insert({
+        date: localToday(),
+        hours: -adjustment.hours,
+        reason: `Reverses ${adjustment.date} adjustment: ${adjustment.reason}`
+      });
+      await this.load();
+    }
+  };
+}
+
+export const careerAdjustments = createCareerAdjustmentsStore();
+
+// Career hours = opening balance + logged entries + adjustments.
+// Loads the adjustments so the ledger shown matches the total.
+export async function getCareerHoursBreakdown(): Promise<CareerHoursBreakdown> {
+  const profile = get(user);
+  const openingHours = profile?.career_opening_hours || 0;
+  const openingDate = profile?.career_opening_date || null;
+
+  await careerAdjustments.load();
+  const loggedHours = await careerAdjustmentQueries.getLoggedHours(openingDate);
+  const adjustmentHours = get(careerAdjustments).reduce((sum, a) => sum + a.hours, 0);
+
+  return {
+    openingHours,
+    openingDate,
+    loggedHours,
+    adjustmentHours,
+    total: openingHours + loggedHours + adjustmentHours
+  };
+}
@@ -1,6 +1,20 @@
 import { writable, derived } from 'svelte/store';
 import { database } from '$lib/db/database';
+import { documentQueries, paystubReviewQueries, payPeriodQueries } from '$lib/db/queries';
 import type { Document } from '$lib/db/schema';
+import type { DocumentExtraction } from '$lib/utils/ai';
+
+const EXTRACTED_CATEGORIES: Array<Document['category']> = ['pay_stub', 'manning_sheet', 'toolbox_talk', 'vacation_pay'];
+
+// What AI read from a document, for the categories it knows how to read
+export function getDocumentExtraction(doc: Document): DocumentExtraction | null {
+  if (!doc.extracted_data || !EXTRACTED_CATEGORIES.includes(doc.category)) return null;
+  try {
+    return { category: doc.category, data: JSON.parse(doc.extracted_data) } as DocumentExtraction;
+  } catch {
+    return null;
+  }
+}
 
 function createDocumentsStore() {
   const { subscribe, set, update } = writable<Document[]>([]);
@@ -22,14 +36,10 @@ function createDocumentsStore() {
 
     async add(doc: Omit<Document, 'id' | 'created_at'>) {
       try {
-        const result = await database.run(
-          `INSERT INTO documents (name, type, file_path, file_size, mime_type, category, extracted_data, notes)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          [doc.name, doc.type, doc.file_path, doc.file_size, doc.mime_type, doc.category, doc.extracted_data, doc.notes]
-        );
+        const id = await documentQueries.create(doc);
 
         const newDoc: Document = {
-          id: result.lastId,
+          id,
           ...doc,
           created_at: new Date().toISOString()
         };
@@ -69,6 +79,8 @@ function createDocumentsStore() {
     async remove(id: number) {
       try {
         await database.run('DELETE FROM documents WHERE id = ?', [id]);
+        await paystubReviewQueries.removeForDocument(id);
+        await payPeriodQueries.unlinkDocument(id);
         update(docs => docs.filter(d => d.id !== id));
       } catch (error) {
         console.error('Failed to delete document:', error);
@@ -101,6 +113,7 @@ export const documentCounts = derived(documents, ($documents) => {
     vacation_pay: 0,
     pay_stub: 0,
     timesheet: 0,
+    report: 0,
     other: 0
   };
 
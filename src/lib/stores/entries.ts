@@ -1,6 +1,9 @@
 import { writable, derived } from 'svelte/store';
-import { entryQueries } from '$lib/db';
-import type { Entry } from '$lib/db';
+import { database, entryQueries, type DbExecutor } from '$lib/db';
+import type { Entry, EntryRecalcFilter } from '$lib/db';
+import { getPayContext } from './payRules';
+import { planDoubleShiftChanges, planRecalculation, type RecalculationPlan } from '$lib/utils/earnings';
+import { toDateString } from '$lib/utils/dates';
 
 // Helper functions for date manipulation
 function getStartOfWeek(date: Date): string {
@@ -8,7 +11,7 @@ function getStartOfWeek(date: Date): string {
   const day = d.getDay();
   const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Monday as start of week
   d.setDate(diff);
-  return d.toISOString().split('T')[0];
+  return toDateString(d);
 }
 
 function getEndOfWeek(date: Date): string {
@@ -16,23 +19,50 @@ function getEndOfWeek(date: Date): string {
   const day = d.getDay();
   const diff = d.getDate() + (7 - day) % 7;
   d.setDate(diff);
-  return d.toISOString().split('T')[0];
+  return toDateString(d);
 }
 
 function getStartOfMonth(date: Date): string {
-  return new Date(date.getFullYear(), date.getMonth(), 1).toISOString().split('T')[0];
+  return toDateString(new Date(date.getFullYear(), date.getMonth(), 1));
 }
 
 function getEndOfMonth(date: Date): string {
-  return new Date(date.getFullYear(), date.getMonth() + 1, 0).toISOString().split('T')[0];
+  return toDateString(new Date(date.getFullYear(), date.getMonth() + 1, 0));
 }
 
 function getStartOfYear(date: Date): string {
-  return new Date(date.getFullYear(), 0, 1).toISOString().split('T')[0];
+  return toDateString(new Date(date.getFullYear(), 0, 1));
 }
 
 function getEndOfYear(date: Date): string {
-  return new Date(date.getFullYear(), 11, 31).toISOString().split('T')[0];
+  return toDateString(new Date(date.getFullYear(), 11, 31));
+}
+
+// Every shift on these dates, as currently saved
+export async function getDayEntries(dates: string[], db: DbExecutor = database): Promise<Entry[]> {
+  const days = new Set(dates);
+  if (days.size === 0) return [];
+  const sorted = [...days].sort();
+  const range = await entryQueries.getByDateRange(sorted[0], sorted[sorted.length - 1], db);
+  return range.filter(e => days.has(e.date));
+}
+
+// Adding, moving or removing a shift can turn another shift that day into (or out of)
+// a double shift. before is those days as they were priced - see planDoubleShiftChanges.
+// Run it in the same transaction as the change so both land or neither does.
+export async function refreshDays(
+  before: Entry[],
+  dates: string[],
+  skip: number[] = [],
+  db: DbExecutor = database
+): Promise<void> {
+  const changes = planDoubleShiftChanges(before, await getDayEntries(dates, db), getPayContext(), skip);
+  if (changes.length > 0) {
+    await entryQueries.updatePayMany(
+      changes.map(c => ({ id: c.entry.id, hours: c.hours, bonus_hours: c.bonusHours, earnings: c.earnings })),
+      db
+    );
+  }
 }
 
 // Entries store
@@ -52,19 +82,51 @@ function createEntriesStore() {
       return entries;
     },
 
+    // The entry form prices a new shift knowing the rest of its day
     async add(entry: Omit<Entry, 'id' | 'created_at'>): Promise<number> {
-      const id = await entryQueries.create(entry);
+      const id = await database.transaction(async tx => {
+        const before = await getDayEntries([entry.date], tx);
+        const id = await entryQueries.create(entry, tx);
+        await refreshDays(before, [entry.date], [id], tx);
+        return id;
+      });
       await this.load();
       return id;
     },
 
+    // Add several entries in one transaction and reload once
+    async addMany(newEntries: Omit<Entry, 'id' | 'created_at'>[]): Promise<number[]> {
+      if (newEntries.length === 0) return [];
+      const dates = newEntries.map(e => e.date);
+      const ids = await database.transaction(async tx => {
+        const before = await getDayEntries(dates, tx);
+        const ids = await entryQueries.createMany(newEntries, tx);
+        await refreshDays(before, dates, [], tx);
+        return ids;
+      });
+      await this.load();
+      return ids;
+    },
+
     async update(entry: Partial<Entry> & { id: number }): Promise<void> {
-      await entryQueries.update(entry);
+      const previous = await entryQueries.getById(entry.id);
+      const dates = [previous?.date, entry.date].filter((d): d is string => !!d);
+      await database.transaction(async tx => {
+        const before = await getDayEntries(dates, tx);
+        await entryQueries.update(entry, tx);
+        await refreshDays(before, dates, [entry.id], tx);
+      });
       await this.load();
     },
 
     async remove(id: number): Promise<void> {
-      await entryQueries.delete(id);
+      const previous = await entryQueries.getById(id);
+      const dates = previous ? [previous.date] : [];
+      await database.transaction(async tx => {
+        const before = await getDayEntries(dates, tx);
+        await entryQueries.delete(id, tx);
+        await refreshDays(before, dates, [], tx);
+      });
       await this.load();
     },
 
@@ -72,6 +134,26 @@ function createEntriesStore() {
       return entryQueries.getById(id);
     },
 
+    // Preview what recalculating earnings with current rates and rated jobs would change
+    async previewRecalculation(filter: EntryRecalcFilter): Promise<RecalculationPlan> {
+      const matched = await entryQueries.getForRecalculation(filter);
+      if (matched.length === 0) return planRecalculation([], getPayContext());
+
+      // Whole days around the matched entries, to tell which shifts are doubles
+      const sameDay = await entryQueries.getByDateRange(matched[0].date, matched[matched.length - 1].date);
+      return planRecalculation(matched, getPayContext(), sameDay);
+    },
+
+    // Apply a previewed plan; protected entries are never in plan.changes
+    async applyRecalculation(plan: RecalculationPlan): Promise<number> {
+      if (plan.changes.length === 0) return 0;
+      await entryQueries.updatePayMany(
+        plan.changes.map(c => ({ id: c.entry.id, hours: c.hours, bonus_hours: c.bonusHours, earnings: c.earnings }))
+      );
+      await this.load();
+      return plan.changes.length;
+    },
+
     reset(): void {
       set([]);
     }
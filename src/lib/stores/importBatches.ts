@@ -0,0 +1,96 @@
+import { writable, get } from 'svelte/store';
+import { database, documentQueries, entryQueries, importBatchQueries } from '$lib/db';
+import type { Document, Entry, ImportBatch, ImportSource } from '$lib/db';
+import { reconcileEntries, importDateRange, type NewEntry, type ReconciledRow } from '$lib/utils/reconcile';
+import { documents } from './documents';
+import { entries, getDayEntries, refreshDays } from './entries';
+import { ratedJobs } from './user';
+
+export interface ImportResult {
+  added: number;
+  overwritten: number;
+  skipped: number;
+}
+
+// Job name used in fingerprints - the rated job's name, or the hall job as typed
+function jobName(entry: Pick<Entry, 'job_type' | 'rated_job_id' | 'hall_job_name'>): string {
+  if (entry.job_type === 'rated' && entry.rated_job_id !== null) {
+    return get(ratedJobs).find(j => j.id === entry.rated_job_id)?.name || '';
+  }
+  return entry.hall_job_name || '';
+}
+
+// Import history store - every importer goes through commit() so each run can be undone
+function createImportBatchesStore() {
+  const { subscribe, set } = writable<ImportBatch[]>([]);
+
+  return {
+    subscribe,
+
+    async load(): Promise<void> {
+      set(await importBatchQueries.getAll());
+    },
+
+    // Classify incoming entries against what's already logged on the same dates
+    async reconcile(incoming: NewEntry[]): Promise<ReconciledRow[]> {
+      const range = importDateRange(incoming);
+      const existing = range ? await entryQueries.getByDateRange(range.start, range.end) : [];
+      return reconcileEntries(incoming, existing, jobName);
+    },
+
+    // Apply the user's choices as one batch, saving the source documents in the same transaction
+    async commit(
+      source: ImportSource,
+      fileName: string | null,
+      rows: ReconciledRow[],
+      docs: Omit<Document, 'id' | 'created_at'>[] = []
+    ): Promise<ImportResult> {
+      const additions = rows.filter(r => r.resolution === 'add').map(r => r.entry);
+      const overwrites = rows
+        .filter((r): r is ReconciledRow & { existing: Entry } => r.resolution === 'overwrite' && r.existing !== null)
+        .map(r => ({ previous: r.existing, entry: r.entry }));
+      const result = {
+        added: additions.length,
+        overwritten: overwrites.length,
+        skipped: rows.length - additions.length - overwrites.length
+      };
+      const changed = result.added + result.overwritten > 0;
+      if (!changed && docs.length === 0) return result;
+
+      // Imported shifts were priced as single shifts; overwritten ones count as new
+      const dates = [...additions.map(e => e.date), ...overwrites.flatMap(o => [o.previous.date, o.entry.date])];
+      const overwritten = new Set(overwrites.map(o => o.previous.id));
+
+      await database.transaction(async tx => {
+        const before = (await getDayEntries(dates, tx)).filter(e => !overwritten.has(e.id));
+        for (const doc of docs) {
+          await documentQueries.create(doc, tx);
+        }
+        if (changed) {
+          await importBatchQueries.apply({ source, file_name: fileName, skipped_count: result.skipped }, additions, overwrites, tx);
+          await refreshDays(before, dates, [], tx);
+        }
+      });
+      await Promise.all([entries.load(), this.load(), documents.load()]);
+      return result;
+    },
+
+    // Remove what a batch added and restore what it overwrote
+    async rollback(batchId: number): Promise<void> {
+      await database.transaction(async tx => {
+        // Restored entries get back the pay they had before the import
+        const restored = (await importBatchQueries.getItems(batchId, tx)).filter(i => i.action === 'overwrite').map(i => i.entry_id);
+        const before = await getDayEntries(await importBatchQueries.getTouchedDates(batchId, tx), tx);
+        const dates = await importBatchQueries.rollback(batchId, tx);
+        await refreshDays(before, dates, restored, tx);
+      });
+      await Promise.all([entries.load(), this.load()]);
+    },
+
+    reset(): void {
+      set([]);
+    }
+  };
+}
+
+export const importBatches = createImportBatchesStore();
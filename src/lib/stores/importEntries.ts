@@ -0,0 +1,106 @@
+import { roundCents, type ShiftType } from '$lib/utils/earnings';
+import type { ParsedPaystubLineItem, ParsedTimesheetEntry } from '$lib/utils/ai';
+import type { NewEntry } from '$lib/utils/reconcile';
+import { getRatesForDate } from './payRates';
+import { calculateEntryPay } from './payRules';
+
+const SHIFT_TYPES: ShiftType[] = ['day', 'afternoon', 'graveyard'];
+
+// Determine shift type by matching rate to the rates in effect on a date
+export function getShiftTypeByRate(rate: number, date: string): ShiftType {
+  const ratesOnDate = getRatesForDate(date);
+
+  // Find closest matching rate
+  let bestMatch: ShiftType = 'day';
+  let smallestDiff = Infinity;
+
+  for (const type of SHIFT_TYPES) {
+    const shiftRate = ratesOnDate[type];
+    if (shiftRate) {
+      const diff = Math.abs(shiftRate - rate);
+      if (diff < smallestDiff) {
+        smallestDiff = diff;
+        bestMatch = type;
+      }
+    }
+  }
+
+  return bestMatch;
+}
+
+// Group paystub line items into shifts: regular pay is matched to a shift by its rate,
+// and a date's overtime goes with the last shift worked that day
+function groupPaystubShifts(lineItems: ParsedPaystubLineItem[]) {
+  const shifts: Array<{ date: string; shiftType: ShiftType; regular: ParsedPaystubLineItem[]; overtime: ParsedPaystubLineItem[] }> = [];
+  const find = (date: string, shiftType: ShiftType) => {
+    let shift = shifts.find(sh => sh.date === date && sh.shiftType === shiftType);
+    if (!shift) {
+      shift = { date, shiftType, regular: [], overtime: [] };
+      shifts.push(shift);
+    }
+    return shift;
+  };
+
+  for (const item of lineItems) {
+    if (!item.date || item.type === 'overtime') continue;
+    find(item.date, item.rate ? getShiftTypeByRate(item.rate, item.date) : 'day').regular.push(item);
+  }
+  for (const item of lineItems) {
+    if (!item.date || item.type !== 'overtime') continue;
+    const sameDay = shifts
+      .filter(sh => sh.date === item.date)
+      .sort((a, b) => SHIFT_TYPES.indexOf(b.shiftType) - SHIFT_TYPES.indexOf(a.shiftType));
+    // Overtime with no regular pay that day - its rate is the shift rate at time and a half
+    (sameDay[0] || find(item.date, item.rate ? getShiftTypeByRate(item.rate / 1.5, item.date) : 'day')).overtime.push(item);
+  }
+
+  return shifts.sort((a, b) => a.date.localeCompare(b.date) || SHIFT_TYPES.indexOf(a.shiftType) - SHIFT_TYPES.indexOf(b.shiftType));
+}
+
+// One entry per shift on a pay stub, so a double shift on one date gives two entries
+export function paystubEntries(lineItems: ParsedPaystubLineItem[]): NewEntry[] {
+  return groupPaystubShifts(lineItems).map(({ date, shiftType, regular, overtime }) => {
+    const regularHours = regular.reduce((sum, li) => sum + (li.hours || 0), 0);
+    const overtimeHours = overtime.reduce((sum, li) => sum + (li.hours || 0), 0);
+    const totalEarnings = [...regular, ...overtime].reduce((sum, li) => sum + (li.amount || 0), 0);
+
+    return {
+      date,
+      shift_type: shiftType,
+      job_type: 'hall',
+      rated_job_id: null,
+      hall_job_name: 'Paystub Import',
+      hours: regularHours + overtimeHours,
+      location: null,
+      ship: null,
+      notes: overtimeHours > 0
+        ? `Imported from paystub (${regularHours}h regular + ${overtimeHours}h overtime)`
+        : 'Imported from paystub',
+      // Paystub amounts are what was actually paid - only estimate when they're missing
+      earnings: totalEarnings
+        ? roundCents(totalEarnings)
+        : calculateEntryPay({ shift_type: shiftType, job_type: 'hall', hours: regularHours + overtimeHours, date }).total || null,
+      earnings_source: totalEarnings ? 'paystub' : 'calculated',
+      bonus_hours: 0
+    };
+  });
+}
+
+export function timesheetEntry(entry: ParsedTimesheetEntry, fileName: string): NewEntry {
+  const date = new Date(entry.date).toISOString().split('T')[0];
+  return {
+    date,
+    shift_type: entry.shift_type,
+    job_type: 'hall',
+    rated_job_id: null,
+    hall_job_name: entry.job_name,
+    hours: entry.hours,
+    location: entry.location || null,
+    ship: entry.ship || null,
+    notes: `Imported from ${fileName}`,
+    // Estimate from the user's rates when the file has no earnings column
+    earnings: entry.earnings || calculateEntryPay({ shift_type: entry.shift_type, job_type: 'hall', hours: entry.hours, date }).total || null,
+    earnings_source: entry.earnings ? 'import' : 'calculated',
+    bonus_hours: 0
+  };
+}
@@ -1,8 +1,20 @@
 // Stores module exports
-export { user, ratedJobs, userDisplayName, hasCompletedOnboarding, getHourlyRate } from './user';
+export { user, ratedJobs, userDisplayName, hasCompletedOnboarding } from './user';
+export { payRates, getHourlyRate, getRatesForDate } from './payRates';
+export { payRules, savePayRules, resetPayRules, isStatHolidayDate, getPayContext, calculateEntryPay } from './payRules';
 export { entries, stats, thisWeekEntries, thisMonthEntries, formatCurrency, formatHours } from './entries';
 export { theme, colorThemes, type ThemeMode, type ColorTheme } from './theme';
-export { documents, documentCounts } from './documents';
+export { documents, documentCounts, getDocumentExtraction } from './documents';
 export { shareGroups, whatsappGroups, telegramGroups } from './shareGroups';
-export { timeOff, vacationDays, sickDays, vacationDaysYTD, sickDaysYTD } from './timeOff';
+export { timeOff, vacationDays, sickDays, vacationDaysYTD, sickDaysYTD, timeOffPeriods, timeOffEntitlements, timeOffDays, timeOffRangeDates, getTimeOffBalances, type TimeOffRangeInput, type TimeOffPeriod, type TimeOffBalance } from './timeOff';
 export { periodSummaries, getCurrentHalfYearPeriod, getPreviousHalfYearPeriod } from './periodSummaries';
+export { importBatches, type ImportResult } from './importBatches';
+export { getShiftTypeByRate, paystubEntries, timesheetEntry } from './importEntries';
+export { batchImport, type BatchKind, type BatchFile } from './batchImport';
+export { paystubReviews, checkPaystub } from './paystubReviews';
+export { payPeriods, getPayPeriodSummaries } from './payPeriods';
+export { aiSettings, saveAISettings, getAIProvider, getAIProviders } from './aiSettings';
+export { getAIUsageByMonth, getAIParseCacheCount, clearAIParseCache, type AIUsageMonth } from './aiUsage';
+export { careerAdjustments, getCareerHoursBreakdown, type CareerHoursBreakdown } from './careerHours';
+export { askWorkHistory, type HistoryAnswer, type HistoryTotal, type HistoryRow } from './workHistory';
+export { pendingStatSchedules, addPendingStatSchedules, readStatSchedulePhoto, saveStatSchedule, clearStatSchedule, getStatScheduleVersions, exportStatSchedules, type PendingStatSchedule, type StatScheduleVersion } from './statSchedules';
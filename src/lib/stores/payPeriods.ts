@@ -0,0 +1,84 @@
+import { writable, get } from 'svelte/store';
+import { database, entryQueries, payPeriodQueries } from '$lib/db';
+import type { PayPeriod } from '$lib/db';
+import { getPaystubData, paystubDateRange } from '$lib/utils/paystubAudit';
+import { localToday } from '$lib/utils/dates';
+import { payPeriodsBetween, periodsCoveredBy, summarizePayPeriod, type PayPeriodSummary } from '$lib/utils/payPeriods';
+import { documents } from './documents';
+import { payRules, getPayContext } from './payRules';
+
+// Pay weeks, newest first, and the pay stub on file for each
+function createPayPeriodsStore() {
+  const { subscribe, set } = writable<PayPeriod[]>([]);
+
+  return {
+    subscribe,
+
+    async load(): Promise<void> {
+      try {
+        set(await payPeriodQueries.getAll());
+      } catch (error) {
+        console.error('Failed to load pay periods:', error);
+        set([]);
+      }
+    },
+
+    // Bring the table in line with the pay week setting, logged shifts and uploaded
+    // pay stubs: one row per week from the first shift or stub through this week,
+    // with unlinked weeks matched to the stub that covers them
+    async sync(): Promise<void> {
+      const cycle = get(payRules);
+      const stubs = (await documents.getByCategory('pay_stub'))
+        .map(doc => {
+          const data = getPaystubData(doc);
+          return { doc, range: data ? paystubDateRange(data) : null };
+        })
+        .filter(s => s.range !== null);
+
+      const [first] = await database.query<{ date: string | null }>('SELECT MIN(date) as date FROM entries');
+      const today = localToday();
+      const starts = [first?.date, ...stubs.map(s => s.range!.start)].filter((d): d is string => !!d).sort();
+
+      await database.transaction(async tx => {
+        await payPeriodQueries.removeOffCycle(cycle.payWeekStartDay, tx);
+        if (starts.length > 0) {
+          await payPeriodQueries.upsert(payPeriodsBetween(starts[0], today, cycle), tx);
+        }
+
+        const periods = await payPeriodQueries.getAll();
+        const linked = new Set(periods.map(p => p.document_id).filter(id => id !== null));
+        // Oldest stubs first so a later stub can't claim a week an earlier one paid
+        for (const { doc, range } of stubs.sort((a, b) => a.range!.start.localeCompare(b.range!.start))) {
+          if (linked.has(doc.id)) continue;
+          const open = periods.filter(p => p.document_id === null);
+          for (const period of periodsCoveredBy(range!.start, range!.end, open)) {
+            await payPeriodQueries.link(period.id, doc.id, tx);
+            period.document_id = doc.id;
+          }
+        }
+      });
+
+      await this.load();
+    },
+
+    // Attach a pay stub by hand, for stubs without dates the sync could match
+    async link(periodId: number, documentId: number): Promise<void> {
+      await payPeriodQueries.link(periodId, documentId);
+      await this.load();
+    }
+  };
+}
+
+export const payPeriods = createPayPeriodsStore();
+
+// Status and expected gross for each pay period, priced with the current pay rules
+export async function getPayPeriodSummaries(periods: PayPeriod[]): Promise<PayPeriodSummary[]> {
+  if (periods.length === 0) return [];
+  const start = periods.reduce((min, p) => (p.start_date < min ? p.start_date : min), periods[0].start_date);
+  const end = periods.reduce((max, p) => (p.end_date > max ? p.end_date : max), periods[0].end_date);
+
+  const entries = await entryQueries.getByDateRange(start, end);
+  const context = getPayContext();
+  const today = localToday();
+  return periods.map(period => summarizePayPeriod(period, entries, context, today));
+}
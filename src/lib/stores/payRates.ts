@@ -0,0 +1,69 @@
+import { writable, get } from 'svelte/store';
+import { payRateQueries } from '$lib/db';
+import type { PayRate } from '$lib/db';
+import { localToday } from '$lib/utils/dates';
+import { user } from './user';
+import { ratesForDate, ratesFromUser, resolveRate, type ShiftRates, type ShiftType } from '$lib/utils/earnings';
+
+// Pay rate history store - one row per shift type per rate change
+function createPayRatesStore() {
+  const { subscribe, set } = writable<PayRate[]>([]);
+
+  // Keep the profile's rate columns equal to today's rates for screens that only need "current"
+  async function syncCurrentRates(history: PayRate[]): Promise<void> {
+    const current = ratesForDate(history, localToday(), ratesFromUser(get(user)));
+    await user.update({
+      day_rate: current.day || null,
+      afternoon_rate: current.afternoon || null,
+      graveyard_rate: current.graveyard || null
+    });
+  }
+
+  return {
+    subscribe,
+
+    async load(): Promise<void> {
+      const rates = await payRateQueries.getAll();
+      set(rates);
+    },
+
+    // Record new rates for some or all shifts, in effect from a date onwards
+    async addChange(effectiveFrom: string, rates: Partial<ShiftRates>, notes: string | null = null): Promise<number> {
+      const changes = (Object.entries(rates) as Array<[ShiftType, number | null | undefined]>)
+        .filter(([, rate]) => rate != null && rate > 0)
+        .map(([shift_type, rate]) => ({ shift_type, rate: rate as number, effective_from: effectiveFrom, notes }));
+      if (changes.length === 0) return 0;
+
+      await payRateQueries.upsertMany(changes);
+      await this.load();
+      await syncCurrentRates(get({ subscribe }));
+      return changes.length;
+    },
+
+    async remove(id: number): Promise<void> {
+      await payRateQueries.delete(id);
+      await this.load();
+      await syncCurrentRates(get({ subscribe }));
+    },
+
+    reset(): void {
+      set([]);
+    }
+  };
+}
+
+export const payRates = createPayRatesStore();
+
+// Get the hourly rate for a shift type on a date (defaults to today)
+export function getHourlyRate(
+  shiftType: ShiftType,
+  date: string = localToday()
+): number {
+  const rate = resolveRate(get(payRates), shiftType, date);
+  return rate ?? ratesFromUser(get(user))[shiftType];
+}
+
+// Rate table for every shift on a date
+export function getRatesForDate(date: string): ShiftRates {
+  return ratesForDate(get(payRates), date, ratesFromUser(get(user)));
+}
@@ -0,0 +1,52 @@
+import { derived, get } from 'svelte/store';
+import { user, ratedJobs } from './user';
+import { getRatesForDate } from './payRates';
+import { getStatHolidaysForYear } from '$lib/constants/statHolidays';
+import {
+  calculateShiftPay,
+  parsePayRules,
+  type PayContext,
+  type PayRules,
+  type ShiftPayBreakdown,
+  type ShiftPayInput
+} from '$lib/utils/earnings';
+import type { RatedJob } from '$lib/db';
+
+// The profile's pay rules, with defaults filled in
+export const payRules = derived(user, ($user) => parsePayRules($user?.pay_rules ?? null));
+
+export async function savePayRules(rules: PayRules): Promise<void> {
+  await user.update({ pay_rules: JSON.stringify(rules) });
+}
+
+export async function resetPayRules(): Promise<void> {
+  await user.update({ pay_rules: null });
+}
+
+export function isStatHolidayDate(date: string): boolean {
+  const day = date.split('T')[0];
+  return getStatHolidaysForYear(Number(day.slice(0, 4))).some(h => h.date === day);
+}
+
+// Everything pay depends on, as currently loaded
+export function getPayContext(): PayContext {
+  return {
+    ratedJobs: get(ratedJobs),
+    ratesFor: getRatesForDate,
+    isStatHoliday: isStatHolidayDate,
+    rules: get(payRules)
+  };
+}
+
+// Pay for a shift on a date with the rates, holidays and rules that apply to it
+export function calculateEntryPay(
+  entry: ShiftPayInput & { date: string },
+  ratedJob: Pick<RatedJob, 'has_extra_hour' | 'is_big_hour' | 'has_meal_hour'> | null = null
+): ShiftPayBreakdown {
+  return calculateShiftPay(
+    { ...entry, isStatHoliday: entry.isStatHoliday ?? isStatHolidayDate(entry.date) },
+    ratedJob,
+    getRatesForDate(entry.date),
+    get(payRules)
+  );
+}
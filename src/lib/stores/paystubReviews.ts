@@ -0,0 +1,51 @@
+import { writable } from 'svelte/store';
+import { entryQueries, paystubReviewQueries } from '$lib/db';
+import type { Document, PaystubReview } from '$lib/db';
+import { auditPaystub, getPaystubData, paystubDateRange, type PaystubAudit, type PaystubDiscrepancy } from '$lib/utils/paystubAudit';
+import { getPayContext } from './payRules';
+
+// Match a saved pay stub against the entries logged for its pay period
+export async function checkPaystub(doc: Document): Promise<PaystubAudit | null> {
+  const data = getPaystubData(doc);
+  const range = data ? paystubDateRange(data) : null;
+  if (!data || !range) return null;
+
+  const entries = await entryQueries.getByDateRange(range.start, range.end);
+  return auditPaystub(data, entries, getPayContext());
+}
+
+// Dispute/accept decisions on pay stub discrepancies
+function createPaystubReviewsStore() {
+  const { subscribe, set } = writable<PaystubReview[]>([]);
+
+  return {
+    subscribe,
+
+    async load(): Promise<void> {
+      try {
+        set(await paystubReviewQueries.getAll());
+      } catch (error) {
+        console.error('Failed to load pay stub reviews:', error);
+        set([]);
+      }
+    },
+
+    async review(
+      documentId: number,
+      discrepancy: PaystubDiscrepancy,
+      status: PaystubReview['status'],
+      note: string | null = null
+    ): Promise<void> {
+      await paystubReviewQueries.set({ document_id: documentId, date: discrepancy.date, kind: discrepancy.kind, status, note });
+      await this.load();
+    },
+
+    // Back to open
+    async reopen(documentId: number, discrepancy: PaystubDiscrepancy): Promise<void> {
+      await paystubReviewQueries.remove(documentId, discrepancy.date, discrepancy.kind);
+      await this.load();
+    }
+  };
+}
+
+export const paystubReviews = createPaystubReviewsStore();
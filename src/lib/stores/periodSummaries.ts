@@ -1,7 +1,9 @@
-import { writable } from 'svelte/store';
+import { writable, get } from 'svelte/store';
 import { database } from '$lib/db/database';
 import { documents } from './documents';
+import { user, ratedJobs } from './user';
 import type { PeriodSummary } from '$lib/db/schema';
+import { buildBoardMoveReport, writeReportFile } from '$lib/utils/reports';
 
 // Get the current half-year period (Jan-Jun or Jul-Dec)
 export function getCurrentHalfYearPeriod(): { start: string; end: string; label: string } {
@@ -95,9 +97,9 @@ function createPeriodSummariesStore() {
           return null;
         }
 
-        // Check if we have any entries for the previous period
+        // Check if we have any entries for the previous period (count = days worked, not entries)
         const entries = await database.query<{ count: number; hours: number; earnings: number }>(
-          `SELECT COUNT(*) as count, COALESCE(SUM(hours), 0) as hours, COALESCE(SUM(earnings), 0) as earnings
+          `SELECT COUNT(DISTINCT date) as count, COALESCE(SUM(hours), 0) as hours, COALESCE(SUM(earnings), 0) as earnings
            FROM entries WHERE date >= ? AND date <= ?`,
           [previousPeriod.start, previousPeriod.end]
         );
@@ -109,17 +111,10 @@ function createPeriodSummariesStore() {
 
         const { count, hours, earnings } = entries[0];
 
-        // Create summary data
-        const summaryData = {
-          period: previousPeriod.label,
-          totalHours: hours,
-          totalEarnings: earnings,
-          daysWorked: count,
-          averageHoursPerDay: count > 0 ? hours / count : 0,
-          averageEarningsPerDay: count > 0 ? earnings / count : 0,
-          targetHours: 600,
-          targetMet: hours >= 600
-        };
+        // Build the board move report - its summary is what gets stored
+        const targetHours = get(user)?.average_hours_target || 600;
+        const report = await buildBoardMoveReport(previousPeriod, targetHours, get(ratedJobs));
+        const summaryData = report.data;
 
         // Save to period_summaries table
         await database.run(
@@ -128,42 +123,8 @@ function createPeriodSummariesStore() {
           ['half_year', previousPeriod.start, previousPeriod.end, hours, earnings, count, JSON.stringify(summaryData)]
         );
 
-        // Also save as a document for user review
-        const docName = `Period Summary - ${previousPeriod.label}`;
-        const docContent = `
-DOCKLOGBC PERIOD SUMMARY
-${previousPeriod.label}
-========================
-
-HOURS WORKED
-Total Hours: ${hours.toFixed(1)} hrs
-Target: 600 hrs
-${hours >= 600 ? 'TARGET MET!' : `Shortfall: ${(600 - hours).toFixed(1)} hrs`}
-
-EARNINGS
-Total Earnings: $${earnings.toFixed(2)}
-Average per Day: $${(count > 0 ? earnings / count : 0).toFixed(2)}
-
-DAYS WORKED
-Total Days: ${count}
-Average Hours/Day: ${(count > 0 ? hours / count : 0).toFixed(1)} hrs
-
-BOARD MOVE ELIGIBILITY
-${hours >= 600 ? 'ELIGIBLE - Average hours target met!' : 'NOT ELIGIBLE - Did not meet 600 hour target'}
-
-Generated: ${new Date().toLocaleDateString()}
-        `.trim();
-
-        await documents.add({
-          name: docName,
-          type: 'other',
-          file_path: `summaries/${previousPeriod.start}_${previousPeriod.end}.txt`,
-          file_size: docContent.length,
-          mime_type: 'text/plain',
-          category: 'other',
-          extracted_data: JSON.stringify(summaryData),
-          notes: docContent
-        });
+        // Also save the PDF as a document for user review
+        await documents.add(await writeReportFile(report));
 
         await this.load();
         return summaryData;
@@ -0,0 +1,86 @@
+import { writable } from 'svelte/store';
+import { statHolidayQueries } from '$lib/db';
+import type { StatHolidayVersionSource } from '$lib/db';
+import { getStatHolidaysForYear, loadStatHolidaysFromDb } from '$lib/constants/statHolidays';
+import { parseStatScheduleWithAI, type ParsedStatHoliday } from '$lib/utils/ai';
+import type { ValidationIssue } from '$lib/utils/aiValidation';
+import { shareOrDownloadFile } from '$lib/utils/files';
+import { serializeStatSchedules, toScheduleHolidays, toStatHolidayRecords } from '$lib/utils/statSchedule';
+import { getAIProviders } from './aiSettings';
+
+// A schedule read from a photo or a shared file, waiting to be reviewed
+export interface PendingStatSchedule {
+  year: number;
+  holidays: ParsedStatHoliday[];
+  issues: ValidationIssue[];
+  source: Extract<StatHolidayVersionSource, 'photo' | 'imported' | 'restored'>;
+}
+
+export interface StatScheduleVersion {
+  id: number;
+  source: StatHolidayVersionSource;
+  createdAt: string;
+  holidays: ParsedStatHoliday[];
+}
+
+// Nothing is saved until the schedule page has shown what changes
+export const pendingStatSchedules = writable<PendingStatSchedule[]>([]);
+
+// A newer schedule for the same year replaces one still waiting
+export function addPendingStatSchedules(schedules: PendingStatSchedule[]): void {
+  pendingStatSchedules.update(list => [...list.filter(p => !schedules.some(s => s.year === p.year)), ...schedules]);
+}
+
+// Read a printed schedule with AI - the result waits for review like a shared file
+export async function readStatSchedulePhoto(dataUrl: string): Promise<{ success: boolean; year?: number; error?: string }> {
+  const providers = getAIProviders();
+  if (providers.length === 0) {
+    return { success: false, error: 'Set up an AI provider in Settings to read schedules.' };
+  }
+
+  const result = await parseStatScheduleWithAI(providers, dataUrl);
+  if (!result.success || !result.year || !result.holidays?.length) {
+    return {
+      success: false,
+      error: result.error === 'not_stat_schedule' ? "This doesn't look like a stat holiday schedule" : result.error || 'Could not read the schedule'
+    };
+  }
+
+  addPendingStatSchedules([{ year: result.year, holidays: result.holidays, issues: result.issues || [], source: 'photo' }]);
+  return { success: true, year: result.year };
+}
+
+export async function saveStatSchedule(year: number, holidays: ParsedStatHoliday[], source: StatHolidayVersionSource): Promise<void> {
+  await statHolidayQueries.replaceYear(year, toStatHolidayRecords({ year, holidays }), source);
+  await loadStatHolidaysFromDb();
+}
+
+// Drop the saved schedule for a year; its versions stay restorable
+export async function clearStatSchedule(year: number): Promise<void> {
+  await statHolidayQueries.deleteByYear(year);
+  await loadStatHolidaysFromDb();
+}
+
+export async function getStatScheduleVersions(year: number): Promise<StatScheduleVersion[]> {
+  const versions = await statHolidayQueries.getVersions(year);
+  return versions.map(v => ({
+    id: v.id,
+    source: v.source,
+    createdAt: v.created_at,
+    holidays: (JSON.parse(v.holidays) as Array<ParsedStatHoliday & { pay_date?: string | null }>).map(h => ({
+      name: h.name,
+      date: h.date,
+      qualification_start: h.qualification_start,
+      qualification_end: h.qualification_end,
+      pay_date: h.pay_date || undefined
+    }))
+  }));
+}
+
+export async function exportStatSchedules(years: number[]): Promise<void> {
+  const schedules = years.map(year => ({ year, holidays: toScheduleHolidays(getStatHolidaysForYear(year)) }));
+  const label = years.length === 1 ? String(years[0]) : `${years[0]}-${years[years.length - 1]}`;
+  await shareOrDownloadFile(`docklogbc-stat-holidays-${label}.json`, serializeStatSchedules(schedules), 'application/json', {
+    dialogTitle: 'Share Stat Holiday Schedule'
+  });
+}
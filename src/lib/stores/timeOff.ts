@@ -1,6 +1,53 @@
 import { writable, derived } from 'svelte/store';
-import { database } from '$lib/db/database';
-import type { TimeOff } from '$lib/db/schema';
+import { database, type DbExecutor } from '$lib/db/database';
+import type { TimeOff, TimeOffType, TimeOffEntitlement } from '$lib/db/schema';
+import { TIME_OFF_TYPE_KEYS } from '$lib/constants/timeOff';
+import { addDays, localToday, toDateString } from '$lib/utils/dates';
+
+export interface TimeOffRangeInput {
+  type: TimeOffType;
+  start: string;
+  end: string; // Same as start for a single day
+  halfDay: boolean; // Every day in the range counts as 0.5
+  skipWeekends: boolean;
+  notes: string | null;
+}
+
+// Days booked together, or a single day, as one line in a list
+export interface TimeOffPeriod {
+  rangeId: string | null;
+  type: TimeOffType;
+  start: string;
+  end: string;
+  days: number;
+  halfDay: boolean;
+  dates: string[];
+  ids: number[];
+  notes: string | null;
+}
+
+export interface TimeOffBalance {
+  type: TimeOffType;
+  earned: number | null; // Null when no entitlement is set for the year
+  used: number; // Taken up to today
+  booked: number; // Still to come this year
+  remaining: number | null;
+}
+
+export function timeOffRangeDates(input: Pick<TimeOffRangeInput, 'start' | 'end' | 'skipWeekends'>): string[] {
+  const dates: string[] = [];
+  for (let date = input.start; date <= input.end; date = addDays(date, 1)) {
+    const weekday = new Date(date + 'T00:00:00').getDay();
+    if (input.skipWeekends && (weekday === 0 || weekday === 6)) continue;
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Days off in a list, counting half days as half
+export function timeOffDays(items: Pick<TimeOff, 'amount'>[]): number {
+  return items.reduce((sum, t) => sum + (t.amount ?? 1), 0);
+}
 
 function createTimeOffStore() {
   const { subscribe, set, update } = writable<TimeOff[]>([]);
@@ -20,7 +67,7 @@ function createTimeOffStore() {
       }
     },
 
-    async add(timeOff: Omit<TimeOff, 'id' | 'created_at'>) {
+    async add(timeOff: Omit<TimeOff, 'id' | 'created_at' | 'range_id'>) {
       try {
         // Check if date already exists
         const existing = await database.query<TimeOff>(
@@ -29,16 +76,16 @@ function createTimeOffStore() {
         );
 
         if (existing.length > 0) {
-          // Update existing
+          // Update existing - a day changed on its own leaves its range
           await database.run(
-            'UPDATE time_off SET type = ?, notes = ? WHERE date = ?',
-            [timeOff.type, timeOff.notes, timeOff.date]
+            'UPDATE time_off SET type = ?, amount = ?, range_id = NULL, notes = ? WHERE date = ?',
+            [timeOff.type, timeOff.amount, timeOff.notes, timeOff.date]
           );
         } else {
           // Insert new
           await database.run(
-            'INSERT INTO time_off (date, type, notes) VALUES (?, ?, ?)',
-            [timeOff.date, timeOff.type, timeOff.notes]
+            'INSERT INTO time_off (date, type, amount, notes) VALUES (?, ?, ?, ?)',
+            [timeOff.date, timeOff.type, timeOff.amount, timeOff.notes]
           );
         }
 
@@ -49,6 +96,50 @@ function createTimeOffStore() {
       }
     },
 
+    // Days already off in a range, other than the period being edited
+    async findConflicts(input: TimeOffRangeInput, editing: TimeOffPeriod | null = null): Promise<TimeOff[]> {
+      const dates = new Set(timeOffRangeDates(input));
+      const existing = await this.getByDateRange(input.start, input.end);
+      return existing.filter(t => dates.has(t.date) && !editing?.ids.includes(t.id));
+    },
+
+    // Book every day in a range in one transaction, replacing what was on those days.
+    // Editing a period replaces it, so days dropped from the range are freed.
+    async saveRange(input: TimeOffRangeInput, editing: TimeOffPeriod | null = null): Promise<number> {
+      const dates = timeOffRangeDates(input);
+      if (dates.length === 0) return 0;
+
+      const rangeId = dates.length > 1 ? `${input.start}_${Date.now().toString(36)}` : null;
+      const amount = input.halfDay ? 0.5 : 1;
+      try {
+        await database.transaction(async tx => {
+          if (editing) await removePeriodRows(editing, tx);
+          for (const date of dates) {
+            await tx.run('DELETE FROM time_off WHERE date = ?', [date]);
+            await tx.run(
+              'INSERT INTO time_off (date, type, amount, range_id, notes) VALUES (?, ?, ?, ?, ?)',
+              [date, input.type, amount, rangeId, input.notes]
+            );
+          }
+        });
+        await this.load();
+        return dates.length;
+      } catch (error) {
+        console.error('Failed to save time off range:', error);
+        throw error;
+      }
+    },
+
+    async removePeriod(period: TimeOffPeriod) {
+      try {
+        await removePeriodRows(period);
+        await this.load();
+      } catch (error) {
+        console.error('Failed to remove time off:', error);
+        throw error;
+      }
+    },
+
     async remove(date: string) {
       try {
         await database.run('DELETE FROM time_off WHERE date = ?', [date]);
@@ -81,7 +172,7 @@ function createTimeOffStore() {
       }
     },
 
-    async getByType(type: 'vacation' | 'sick'): Promise<TimeOff[]> {
+    async getByType(type: TimeOffType): Promise<TimeOff[]> {
       try {
         return await database.query<TimeOff>(
           'SELECT * FROM time_off WHERE type = ? ORDER BY date DESC',
@@ -93,9 +184,9 @@ function createTimeOffStore() {
       }
     },
 
-    async getYearToDate(type: 'vacation' | 'sick'): Promise<TimeOff[]> {
-      const startOfYear = new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0];
-      const today = new Date().toISOString().split('T')[0];
+    async getYearToDate(type: TimeOffType): Promise<TimeOff[]> {
+      const startOfYear = toDateString(new Date(new Date().getFullYear(), 0, 1));
+      const today = localToday();
       try {
         return await database.query<TimeOff>(
           'SELECT * FROM time_off WHERE type = ? AND date >= ? AND date <= ? ORDER BY date DESC',
@@ -109,8 +200,107 @@ function createTimeOffStore() {
   };
 }
 
+async function removePeriodRows(period: TimeOffPeriod, db: DbExecutor = database): Promise<void> {
+  if (period.rangeId) {
+    await db.run('DELETE FROM time_off WHERE range_id = ?', [period.rangeId]);
+  } else {
+    await db.run(`DELETE FROM time_off WHERE id IN (${period.ids.map(() => '?').join(', ')})`, period.ids);
+  }
+}
+
 export const timeOff = createTimeOffStore();
 
+// Ranges and single days, newest first
+export const timeOffPeriods = derived(timeOff, ($timeOff) => {
+  const periods: TimeOffPeriod[] = [];
+  const ranges = new Map<string, TimeOffPeriod>();
+
+  for (const day of [...$timeOff].sort((a, b) => a.date.localeCompare(b.date))) {
+    const range = day.range_id ? ranges.get(day.range_id) : undefined;
+    if (range) {
+      range.end = day.date;
+      range.days += day.amount ?? 1;
+      range.dates.push(day.date);
+      range.ids.push(day.id);
+      continue;
+    }
+    const period: TimeOffPeriod = {
+      rangeId: day.range_id,
+      type: day.type,
+      start: day.date,
+      end: day.date,
+      days: day.amount ?? 1,
+      halfDay: day.amount === 0.5,
+      dates: [day.date],
+      ids: [day.id],
+      notes: day.notes
+    };
+    periods.push(period);
+    if (day.range_id) ranges.set(day.range_id, period);
+  }
+
+  return periods.reverse();
+});
+
+// Days earned per leave type and year
+function createTimeOffEntitlementsStore() {
+  const { subscribe, set } = writable<TimeOffEntitlement[]>([]);
+
+  return {
+    subscribe,
+
+    async load() {
+      try {
+        set(await database.query<TimeOffEntitlement>('SELECT * FROM time_off_entitlements ORDER BY year DESC, type'));
+      } catch (error) {
+        console.error('Failed to load time off entitlements:', error);
+        set([]);
+      }
+    },
+
+    // Null clears the entitlement
+    async save(year: number, type: TimeOffType, days: number | null) {
+      try {
+        if (days === null) {
+          await database.run('DELETE FROM time_off_entitlements WHERE year = ? AND type = ?', [year, type]);
+        } else {
+          await database.run(
+            `INSERT INTO time_off_entitlements (year, type, days) VALUES (?, ?, ?)
+             ON CONFLICT(year, type) DO UPDATE SET days = excluded.days`,
+            [year, type, days]
+          );
+        }
+        await this.load();
+      } catch (error) {
+        console.error('Failed to save time off entitlement:', error);
+        throw error;
+      }
+    }
+  };
+}
+
+export const timeOffEntitlements = createTimeOffEntitlementsStore();
+
+// Earned, used and remaining days for a year. Vacation and sick always show;
+// other types once they have an entitlement or a day off.
+export function getTimeOffBalances(items: TimeOff[], entitlements: TimeOffEntitlement[], year: number): TimeOffBalance[] {
+  const today = localToday();
+  const start = `${year}-01-01`;
+  const end = `${year}-12-31`;
+  const inYear = items.filter(t => t.date >= start && t.date <= end);
+
+  return TIME_OFF_TYPE_KEYS.flatMap(type => {
+    const entitlement = entitlements.find(e => e.year === year && e.type === type);
+    const days = inYear.filter(t => t.type === type);
+    if (!entitlement && days.length === 0 && type !== 'vacation' && type !== 'sick') return [];
+
+    const used = timeOffDays(days.filter(t => t.date <= today));
+    const booked = timeOffDays(days.filter(t => t.date > today));
+    const earned = entitlement ? entitlement.days : null;
+    return [{ type, earned, used, booked, remaining: earned === null ? null : earned - used - booked }];
+  });
+}
+
 // Derived store for vacation days
 export const vacationDays = derived(timeOff, ($timeOff) =>
   $timeOff.filter(t => t.type === 'vacation')
@@ -123,11 +313,11 @@ export const sickDays = derived(timeOff, ($timeOff) =>
 
 // Get YTD counts
 export const vacationDaysYTD = derived(timeOff, ($timeOff) => {
-  const startOfYear = new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0];
+  const startOfYear = toDateString(new Date(new Date().getFullYear(), 0, 1));
   return $timeOff.filter(t => t.type === 'vacation' && t.date >= startOfYear);
 });
 
 export const sickDaysYTD = derived(timeOff, ($timeOff) => {
-  const startOfYear = new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0];
+  const startOfYear = toDateString(new Date(new Date().getFullYear(), 0, 1));
   return $timeOff.filter(t => t.type === 'sick' && t.date >= startOfYear);
 });
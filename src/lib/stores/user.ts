@@ -82,19 +82,3 @@ export const userDisplayName = derived(user, ($user) => {
 export const hasCompletedOnboarding = derived(user, ($user) => {
   return $user !== null && $user.last_name && $user.man_number;
 });
-
-// Get hourly rate for a shift type
-export function getHourlyRate(userData: User | null, shiftType: 'day' | 'afternoon' | 'graveyard'): number {
-  if (!userData) return 0;
-
-  switch (shiftType) {
-    case 'day':
-      return userData.day_rate || 0;
-    case 'afternoon':
-      return userData.afternoon_rate || 0;
-    case 'graveyard':
-      return userData.graveyard_rate || 0;
-    default:
-      return 0;
-  }
-}
@@ -0,0 +1,65 @@
+import { get } from 'svelte/store';
+import { database } from '$lib/db/database';
+import { parseHistoryQuestionWithAI } from '$lib/utils/ai';
+import type { ValidationIssue } from '$lib/utils/aiValidation';
+import { localToday } from '$lib/utils/dates';
+import { compileHistoryQuery, HISTORY_ROW_LIMIT, type HistoryQuery } from '$lib/utils/historyQuery';
+import { getAIProviders } from './aiSettings';
+import { ratedJobs } from './user';
+
+export interface HistoryTotal {
+  label: string | null; // The group, or null when not broken down
+  value: number;
+  missing: number; // Shifts with no earnings recorded, for earnings totals
+}
+
+export type HistoryRow = Record<string, string | number | null>;
+
+export interface HistoryAnswer {
+  question: string;
+  query: HistoryQuery;
+  issues: ValidationIssue[];
+  totals: HistoryTotal[];
+  rows: HistoryRow[];
+  truncated: boolean; // More rows matched than HISTORY_ROW_LIMIT
+}
+
+// Answer a question about the user's own shifts and time off. The model only
+// describes what to look up; the lookup runs against the local database.
+export async function askWorkHistory(question: string): Promise<{ success: boolean; answer?: HistoryAnswer; error?: string }> {
+  const providers = getAIProviders();
+  if (providers.length === 0) {
+    return { success: false, error: 'Set up an AI provider in Settings to ask questions.' };
+  }
+
+  const parsed = await parseHistoryQuestionWithAI(providers, question, {
+    today: localToday(),
+    jobNames: get(ratedJobs).map(j => j.name)
+  });
+  if (!parsed.success || !parsed.data) {
+    return { success: false, error: parsed.error || "Couldn't understand the question" };
+  }
+
+  try {
+    const compiled = compileHistoryQuery(parsed.data);
+    const [totals, rows] = await Promise.all([
+      database.query<HistoryTotal>(compiled.totals.sql, compiled.totals.params),
+      database.query<HistoryRow>(compiled.rows.sql, compiled.rows.params)
+    ]);
+
+    return {
+      success: true,
+      answer: {
+        question,
+        query: parsed.data,
+        issues: parsed.issues || [],
+        totals,
+        rows: rows.slice(0, HISTORY_ROW_LIMIT),
+        truncated: rows.length > HISTORY_ROW_LIMIT
+      }
+    };
+  } catch (error) {
+    console.error('Work history lookup error:', error);
+    return { success: false, error: 'Failed to look that up' };
+  }
+}
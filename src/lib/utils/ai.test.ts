@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parsePaystubWithAI, parseStatScheduleWithAI, parseTimesheetWithAI, type ParsedPaystubData } from './ai';
+import { completeWithFallback, createFixtureProvider, type AIFixture, type AIProvider } from './aiProviders';
+
+const IMAGE = 'data:image/png;base64,AAAA';
+
+const PAYSTUB = JSON.stringify({
+  line_items: [
+    { date: '2025-03-04', type: 'regular', rate: 53.62, hours: 8, amount: 428.96 },
+    { date: '2025-03-04', type: 'overtime', rate: 53.62, hours: 1, amount: 53.62 },
+    { date: '2025-03-05', type: 'regular', rate: 83.88, hours: 6.5, amount: 545.22 }
+  ],
+  gross_pay: 1027.8,
+  net_pay: 712.44,
+  total_hours: 15.5,
+  federal_tax: 142.1,
+  provincial_tax: 51.3,
+  cpp: 57.2,
+  ei: 16.86,
+  union_dues: 47.9,
+  pension_contribution: null,
+  pay_period_start: '2025-03-02',
+  pay_period_end: '2025-03-08'
+});
+
+const TIMESHEET = JSON.stringify([
+  { date: '2025-03-04', shift_type: 'day', hours: 8, job_name: 'Crane Operator', earnings: 482.58, location: 'Centerm', ship: 'MSC Oscar' },
+  { date: '2025-03-05', shift_type: 'Graveyard', hours: 6.5, job_name: 'Lasher', location: 'Deltaport' }
+]);
+
+const STAT_SCHEDULE = JSON.stringify({
+  year: 2026,
+  holidays: [
+    { name: "New Year's Day", date: '2026-01-01', qualification_start: '2025-11-30', qualification_end: '2025-12-29', pay_date: '2026-01-15' },
+    { name: 'Canada Day', date: '2026-07-01', qualification_start: '2026-05-31', qualification_end: '2026-06-29', pay_date: null }
+  ]
+});
+
+function fixtures(list: AIFixture[]): AIProvider {
+  return createFixtureProvider(list);
+}
+
+// A provider that records whether it was asked
+function spyProvider(text: string): AIProvider & { calls: number } {
+  const provider = {
+    id: 'local' as const,
+    name: 'Spy',
+    calls: 0,
+    async complete() {
+      provider.calls++;
+      return { text, provider: 'local' as const, model: 'spy', inputTokens: null, outputTokens: null };
+    }
+  };
+  return provider;
+}
+
+beforeEach(() => {
+  // Providers that fail are logged before the next is tried
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parsePaystubWithAI', () => {
+  it('reads line items and current period totals', async () => {
+    const result = await parsePaystubWithAI([fixtures([{ task: 'paystub', response: PAYSTUB }])], IMAGE);
+    const data = result.data as ParsedPaystubData;
+
+    expect(result.success).toBe(true);
+    expect(data.line_items).toHaveLength(3);
+    expect(data.line_items[1]).toEqual({ date: '2025-03-04', type: 'overtime', rate: 53.62, hours: 1, amount: 53.62 });
+    expect(data.gross_pay).toBe(1027.8);
+    expect(data.hours_worked).toBe(15.5);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('accepts a reply wrapped in a markdown fence', async () => {
+    const result = await parsePaystubWithAI([fixtures([{ task: 'paystub', response: '```json\n' + PAYSTUB + '\n```' }])], IMAGE);
+
+    expect(result.success).toBe(true);
+  });
+
+  it('flags a line whose amount is not hours x rate', async () => {
+    const stub = JSON.parse(PAYSTUB);
+    stub.line_items[0].amount = 482.96;
+    const result = await parsePaystubWithAI([fixtures([{ task: 'paystub', response: JSON.stringify(stub) }])], IMAGE);
+
+    expect(result.success).toBe(true);
+    expect(result.issues).toContainEqual(expect.objectContaining({ path: 'line_items.0.amount', severity: 'warning' }));
+  });
+
+  it('falls through to the next provider when a reply is not JSON', async () => {
+    const garbled = fixtures([{ task: 'paystub', response: "Sorry, I can't read this image." }]);
+    const good = fixtures([{ task: 'paystub', response: PAYSTUB }]);
+    const result = await parsePaystubWithAI([garbled, good], IMAGE);
+
+    expect(result.success).toBe(true);
+    expect((result.data as ParsedPaystubData).line_items).toHaveLength(3);
+  });
+
+  it('falls through to the next provider when a reply fails validation', async () => {
+    const invalid = fixtures([{ task: 'paystub', response: JSON.stringify({ line_items: [], gross_pay: null, net_pay: null }) }]);
+    const good = fixtures([{ task: 'paystub', response: PAYSTUB }]);
+    const result = await parsePaystubWithAI([invalid, good], IMAGE);
+
+    expect(result.success).toBe(true);
+  });
+
+  it('reports the first error when every provider fails', async () => {
+    const result = await parsePaystubWithAI([fixtures([]), fixtures([{ task: 'paystub', response: 'nope' }])], IMAGE);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('No AI fixture recorded for paystub');
+  });
+});
+
+describe('parseTimesheetWithAI', () => {
+  it('reads entries and normalizes shift names', async () => {
+    const result = await parseTimesheetWithAI([fixtures([{ task: 'timesheet', response: TIMESHEET }])], 'Mar 4 Crane Centerm');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([
+      { date: '2025-03-04', shift_type: 'day', hours: 8, job_name: 'Crane Operator', earnings: 482.58, location: 'Centerm', ship: 'MSC Oscar' },
+      { date: '2025-03-05', shift_type: 'graveyard', hours: 6.5, job_name: 'Lasher', location: 'Deltaport' }
+    ]);
+  });
+
+  it('replays the fixture matching the text being parsed', async () => {
+    const provider = fixtures([
+      { task: 'timesheet', match: 'Week of March 10', response: '[]' },
+      { task: 'timesheet', response: TIMESHEET }
+    ]);
+
+    const matched = await parseTimesheetWithAI([provider], 'Week of March 10\nNo shifts');
+    const fallback = await parseTimesheetWithAI([provider], 'Week of March 3');
+
+    expect(matched.data).toEqual([]);
+    expect(fallback.data).toHaveLength(2);
+  });
+
+  it('warns about a second shift of the same type on one day', async () => {
+    const entries = JSON.parse(TIMESHEET);
+    entries[1] = { ...entries[0], job_name: 'Lasher' };
+    const result = await parseTimesheetWithAI([fixtures([{ task: 'timesheet', response: JSON.stringify(entries) }])], null, IMAGE);
+
+    expect(result.success).toBe(true);
+    expect(result.issues).toContainEqual(expect.objectContaining({ path: 'entries.1.shift_type', severity: 'warning' }));
+  });
+
+  it('falls through to the next provider when a reply is not a list', async () => {
+    const wrongShape = fixtures([{ task: 'timesheet', response: '{"entries":"none"}' }]);
+    const good = fixtures([{ task: 'timesheet', response: TIMESHEET }]);
+    const result = await parseTimesheetWithAI([wrongShape, good], 'Mar 4');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(2);
+  });
+});
+
+describe('parseStatScheduleWithAI', () => {
+  it('reads the year and holidays', async () => {
+    const result = await parseStatScheduleWithAI([fixtures([{ task: 'stat_schedule', response: STAT_SCHEDULE }])], IMAGE);
+
+    expect(result.success).toBe(true);
+    expect(result.year).toBe(2026);
+    expect(result.holidays?.map(h => h.name)).toEqual(["New Year's Day", 'Canada Day']);
+    expect(result.holidays?.[1].pay_date).toBeUndefined();
+  });
+
+  it('treats "not a stat schedule" as an answer and does not ask the next provider', async () => {
+    const next = spyProvider(STAT_SCHEDULE);
+    const result = await parseStatScheduleWithAI(
+      [fixtures([{ task: 'stat_schedule', response: '{"error":"not_stat_schedule"}' }]), next],
+      IMAGE
+    );
+
+    expect(result).toEqual({ success: false, error: 'not_stat_schedule' });
+    expect(next.calls).toBe(0);
+  });
+
+  it('falls through to the next provider when no holidays survive validation', async () => {
+    const empty = fixtures([{ task: 'stat_schedule', response: JSON.stringify({ year: 2026, holidays: [{ name: 'Canada Day' }] }) }]);
+    const next = spyProvider(STAT_SCHEDULE);
+    const result = await parseStatScheduleWithAI([empty, next], IMAGE);
+
+    expect(result.success).toBe(true);
+    expect(result.holidays).toHaveLength(2);
+    expect(next.calls).toBe(1);
+  });
+});
+
+describe('completeWithFallback', () => {
+  it('skips a provider with nothing to offer and reports who answered', async () => {
+    const miss: AIProvider = { id: 'cache', name: 'Cache', complete: async () => null };
+    const { result, completion } = await completeWithFallback(
+      [miss, fixtures([{ task: 'paystub', response: '{"ok":true}' }])],
+      { task: 'paystub', prompt: '' },
+      text => JSON.parse(text)
+    );
+
+    expect(result).toEqual({ ok: true });
+    expect(completion.provider).toBe('fixture');
+  });
+
+  it('tries providers in order and stops at the first usable answer', async () => {
+    const first = spyProvider('not json');
+    const second = spyProvider('{"n":2}');
+    const third = spyProvider('{"n":3}');
+    const { result } = await completeWithFallback([first, second, third], { task: 'paystub', prompt: '' }, text => JSON.parse(text));
+
+    expect(result).toEqual({ n: 2 });
+    expect([first.calls, second.calls, third.calls]).toEqual([1, 1, 0]);
+  });
+});
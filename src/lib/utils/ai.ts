@@ -1,24 +1,21 @@
-// AI API utility for parsing timesheets, paystubs, and documents
-// Primary: Anthropic Claude | Backup: Google Gemini
-
-import { CapacitorHttp } from '@capacitor/core';
-
-const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent';
-
-// Get API key from environment variable (fallback)
-const ENV_GEMINI_KEY = import.meta.env.VITE_GEMINI_API_KEY || '';
-const ENV_ANTHROPIC_KEY = import.meta.env.VITE_ANTHROPIC_API_KEY || '';
-
-export function getApiKey(userKey?: string | null): string {
-  return userKey || ENV_ANTHROPIC_KEY;
-}
-
-// Keep old names for backward compat
-export const getAnthropicApiKey = getApiKey;
-export function getGeminiApiKey(userKey?: string | null): string {
-  return userKey || ENV_GEMINI_KEY;
-}
+// AI parsing for timesheets, paystubs, stat schedules, the other documents a
+// longshoreman keeps (manning sheets, toolbox talks, vacation pay) and questions
+// about work history. The prompts and the checks on what comes back live here;
+// which model answers is up to the providers passed in (see aiProviders.ts).
+
+import { completeWithFallback, type AIProvider } from './aiProviders';
+import {
+  validatePaystub,
+  validateTimesheet,
+  validateStatSchedule,
+  validateManningSheet,
+  validateToolboxTalk,
+  validateVacationPay,
+  validateHistoryQuery,
+  type Validated,
+  type ValidationIssue
+} from './aiValidation';
+import type { HistoryQuery } from './historyQuery';
 
 // --- Types ---
 
@@ -61,12 +58,10 @@ export interface ParsedPaystubData {
 export interface AIResponse {
   success: boolean;
   data?: ParsedTimesheetEntry[] | ParsedPaystubData;
+  issues?: ValidationIssue[]; // Field-level problems to review before saving
   error?: string;
 }
 
-// Keep old name for backward compat
-export type GeminiResponse = AIResponse;
-
 export interface ParsedStatHoliday {
   name: string;
   date: string;
@@ -79,131 +74,53 @@ export interface StatScheduleResponse {
   success: boolean;
   year?: number;
   holidays?: ParsedStatHoliday[];
+  issues?: ValidationIssue[];
   error?: string;
 }
 
-// --- Claude (Primary) ---
-
-function parseDataURL(dataURL: string): { mediaType: string; data: string } | null {
-  const commaIndex = dataURL.indexOf(',');
-  const semicolonIndex = dataURL.indexOf(';');
-
-  if (commaIndex <= 0 || semicolonIndex <= 0) {
-    console.error('Failed to parse DataURL - invalid format');
-    return null;
-  }
-
-  let mediaType = dataURL.substring(5, semicolonIndex);
-  const data = dataURL.substring(commaIndex + 1);
-
-  if (mediaType === 'image/jpg') {
-    mediaType = 'image/jpeg';
-  }
-
-  console.log('Parsed file:', mediaType, 'Data length:', data.length);
-  return { mediaType, data };
+export interface ParsedManningAssignment {
+  job: string;
+  worker?: string;
+  man_number?: string;
+  hours?: number;
 }
 
-async function callClaude(apiKey: string, prompt: string, imageBase64?: string): Promise<string> {
-  const content: Array<{ type: string; text?: string; source?: { type: string; media_type: string; data: string } }> = [];
-
-  if (imageBase64) {
-    const parsed = parseDataURL(imageBase64);
-    if (parsed) {
-      if (parsed.mediaType === 'application/pdf') {
-        content.push({
-          type: 'document',
-          source: { type: 'base64', media_type: 'application/pdf', data: parsed.data }
-        });
-      } else if (['image/jpeg', 'image/png', 'image/gif', 'image/webp'].includes(parsed.mediaType)) {
-        content.push({
-          type: 'image',
-          source: { type: 'base64', media_type: parsed.mediaType, data: parsed.data }
-        });
-      } else {
-        console.warn(`Unknown media type: ${parsed.mediaType}, attempting as image/jpeg`);
-        content.push({
-          type: 'image',
-          source: { type: 'base64', media_type: 'image/jpeg', data: parsed.data }
-        });
-      }
-    }
-  }
-
-  content.push({ type: 'text', text: prompt });
-
-  const requestBody = {
-    model: 'claude-sonnet-4-5-20250929',
-    max_tokens: 4096,
-    messages: [{ role: 'user', content }]
-  };
-
-  console.log('Calling Claude API with content types:', content.map(c => c.type));
-  console.log('API key present:', !!apiKey, 'Key prefix:', apiKey?.substring(0, 10));
-
-  const response = await CapacitorHttp.post({
-    url: ANTHROPIC_API_URL,
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    data: requestBody
-  });
-
-  console.log('Claude API response status:', response.status);
-
-  let responseData = response.data;
-  if (typeof responseData === 'string') {
-    try {
-      responseData = JSON.parse(responseData);
-    } catch {
-      console.error('Failed to parse response as JSON:', responseData.substring(0, 500));
-      throw new Error('Invalid response from API');
-    }
-  }
-
-  if (response.status !== 200) {
-    console.error('Claude API error:', JSON.stringify(responseData));
-    const errorMsg = responseData?.error?.message || `API request failed with status ${response.status}`;
-    throw new Error(errorMsg);
-  }
-
-  const text = responseData?.content?.[0]?.text || '';
-  console.log('Claude API returned text:', text.substring(0, 500));
-  return text;
+export interface ParsedManningSheet {
+  date: string;
+  shift_type?: 'day' | 'afternoon' | 'graveyard';
+  terminal?: string;
+  ship?: string;
+  gang?: string;
+  assignments: ParsedManningAssignment[];
 }
 
-// --- Gemini (Backup) ---
-
-async function callGemini(apiKey: string, prompt: string, imageBase64?: string): Promise<string> {
-  const parts: Array<{ text: string } | { inline_data: { mime_type: string; data: string } }> = [];
-
-  if (imageBase64) {
-    const parsed = parseDataURL(imageBase64);
-    if (parsed) {
-      parts.push({ inline_data: { mime_type: parsed.mediaType, data: parsed.data } });
-    }
-  }
-
-  parts.push({ text: prompt });
+export interface ParsedToolboxTalk {
+  date: string;
+  topic: string;
+  summary: string;
+}
 
-  const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{ parts }],
-      generationConfig: { temperature: 0.1, maxOutputTokens: 4096 }
-    })
-  });
+export interface ParsedVacationPay {
+  statement_date?: string;
+  period_start?: string;
+  period_end?: string;
+  accrued: number;
+  paid: number;
+  balance?: number;
+}
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'Gemini API request failed');
-  }
+// What's kept in a document's extracted_data, by category
+export type DocumentExtraction =
+  | { category: 'pay_stub'; data: ParsedPaystubData }
+  | { category: 'manning_sheet'; data: ParsedManningSheet }
+  | { category: 'toolbox_talk'; data: ParsedToolboxTalk }
+  | { category: 'vacation_pay'; data: ParsedVacationPay };
 
-  const result = await response.json();
-  return result.candidates?.[0]?.content?.parts?.[0]?.text || '';
+export interface ExtractionResponse<T> {
+  success: boolean;
+  data?: T;
+  issues?: ValidationIssue[];
+  error?: string;
 }
 
 // --- Helper: strip markdown and extract JSON ---
@@ -216,10 +133,21 @@ function extractJSON(response: string): string {
   return jsonStr.trim();
 }
 
+// Pull a JSON object out of a reply that may have text around it
+function extractJSONObject(response: string): string {
+  const jsonStr = extractJSON(response);
+  const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
+  return jsonMatch ? jsonMatch[0] : jsonStr;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
 // --- Public API ---
 
-export async function parsePaystubWithClaude(
-  apiKey: string,
+export async function parsePaystubWithAI(
+  providers: AIProvider[],
   imageBase64: string
 ): Promise<AIResponse> {
   const prompt = `You are a JSON data extractor for Canadian longshoreman (ILWU) paystubs. Extract pay information and return ONLY a JSON object.
@@ -260,51 +188,31 @@ Return ONLY this JSON structure:
 Replace values with actual data. Use null for fields not found. NO explanations, NO markdown, ONLY the JSON object.`;
 
   try {
-    const response = await callClaude(apiKey, prompt, imageBase64);
-    console.log('Paystub Claude raw response:', response);
-
-    let jsonStr = extractJSON(response);
-
-    // Try to find the full JSON object in the response
-    const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[0];
-    }
-
-    console.log('Paystub JSON to parse:', jsonStr.substring(0, 500));
-
-    const data = JSON.parse(jsonStr) as ParsedPaystubData;
-    console.log('Parsed paystub data:', data);
-
-    // Backward compat: set hours_worked from total_hours
-    if (data.total_hours && !data.hours_worked) {
-      data.hours_worked = data.total_hours;
-    }
+    const { result } = await completeWithFallback(providers, { task: 'paystub', prompt, file: imageBase64 }, response => {
+      const validated = validatePaystub(JSON.parse(extractJSONObject(response)));
+      if (!validated) throw new Error('The pay stub data was not in the expected format');
+      const { data } = validated;
+
+      // Backward compat: set hours_worked from total_hours
+      if (data.total_hours && !data.hours_worked) {
+        data.hours_worked = data.total_hours;
+      }
 
-    // Ensure line_items is an array
-    if (!Array.isArray(data.line_items)) {
-      data.line_items = [];
-    }
+      if (!data.gross_pay && !data.net_pay && data.line_items.length === 0) {
+        throw new Error(`No pay data found. The model returned: ${response.substring(0, 200)}`);
+      }
+      return validated;
+    });
 
-    if (data.gross_pay || data.net_pay || data.line_items.length > 0) {
-      return { success: true, data };
-    } else {
-      return { success: false, error: `No pay data found. Claude returned: ${response.substring(0, 200)}` };
-    }
+    return { success: true, data: result.data, issues: result.issues };
   } catch (error) {
-    console.error('Claude paystub parsing error:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to parse paystub'
-    };
+    console.error('Paystub parsing error:', error);
+    return { success: false, error: errorMessage(error, 'Failed to parse paystub') };
   }
 }
 
-// Keep old name
-export const parsePaystubWithGemini = parsePaystubWithClaude;
-
 export async function parseTimesheetWithAI(
-  apiKey: string,
+  providers: AIProvider[],
   content: string | null,
   imageBase64?: string
 ): Promise<AIResponse> {
@@ -328,64 +236,21 @@ If no valid timesheet data is found, return an empty array: []
 ${content ? `\nText content to parse:\n${content}` : ''}`;
 
   try {
-    // Try Claude first
-    const response = await callClaude(apiKey, prompt, imageBase64);
-    let jsonStr = extractJSON(response);
-
-    const entries = JSON.parse(jsonStr) as ParsedTimesheetEntry[];
-
-    const validEntries = entries
-      .filter(e => e.date && e.hours)
-      .map(e => ({
-        ...e,
-        date: normalizeDate(e.date),
-        shift_type: normalizeShiftType(e.shift_type),
-        hours: Number(e.hours) || 8,
-        job_name: e.job_name || 'Imported',
-        earnings: e.earnings ? Number(e.earnings) : undefined
-      }));
-
-    return { success: true, data: validEntries };
+    const { result } = await completeWithFallback(providers, { task: 'timesheet', prompt, file: imageBase64 }, response => {
+      const validated = validateTimesheet(JSON.parse(extractJSON(response)));
+      if (!validated) throw new Error('Expected a list of entries');
+      return validated;
+    });
+
+    return { success: true, data: result.data, issues: result.issues };
   } catch (error) {
-    console.error('Claude timesheet parsing error, trying Gemini backup:', error);
-
-    // Fallback to Gemini
-    try {
-      const geminiKey = getGeminiApiKey();
-      if (!geminiKey) throw new Error('No Gemini API key available');
-
-      const response = await callGemini(geminiKey, prompt, imageBase64);
-      let jsonStr = extractJSON(response);
-
-      const entries = JSON.parse(jsonStr) as ParsedTimesheetEntry[];
-
-      const validEntries = entries
-        .filter(e => e.date && e.hours)
-        .map(e => ({
-          ...e,
-          date: normalizeDate(e.date),
-          shift_type: normalizeShiftType(e.shift_type),
-          hours: Number(e.hours) || 8,
-          job_name: e.job_name || 'Imported',
-          earnings: e.earnings ? Number(e.earnings) : undefined
-        }));
-
-      return { success: true, data: validEntries };
-    } catch (geminiError) {
-      console.error('Gemini backup also failed:', geminiError);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to parse timesheet'
-      };
-    }
+    console.error('Timesheet parsing error:', error);
+    return { success: false, error: errorMessage(error, 'Failed to parse timesheet') };
   }
 }
 
-// Keep old name
-export const parseTimesheetWithGemini = parseTimesheetWithAI;
-
 export async function parseStatScheduleWithAI(
-  apiKey: string,
+  providers: AIProvider[],
   imageBase64: string
 ): Promise<StatScheduleResponse> {
   const prompt = `Analyze this image. If it contains a statutory holiday schedule (stat holidays, stat pay schedule, BC statutory holidays), extract the holiday information.
@@ -412,97 +277,191 @@ If this is NOT a stat holiday schedule, return exactly:
 {"error":"not_stat_schedule"}`;
 
   try {
-    // Try Claude first
-    const response = await callClaude(apiKey, prompt, imageBase64);
-    console.log('Stat schedule Claude response:', response);
+    const { result } = await completeWithFallback(providers, { task: 'stat_schedule', prompt, file: imageBase64 }, response => {
+      const data = JSON.parse(extractJSONObject(response));
 
-    let jsonStr = extractJSON(response);
-    const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
-    if (jsonMatch) jsonStr = jsonMatch[0];
+      // A clear "this isn't a stat schedule" is an answer, not a failure to retry
+      if (data.error) {
+        return { success: false, error: String(data.error) } as StatScheduleResponse;
+      }
 
-    const data = JSON.parse(jsonStr);
+      const validated = validateStatSchedule(data);
+      if (!validated) throw new Error('Invalid data format');
+      if (validated.data.holidays.length === 0) throw new Error('No valid holidays found');
 
-    if (data.error) {
-      return { success: false, error: data.error };
-    }
+      return { success: true, ...validated.data, issues: validated.issues } as StatScheduleResponse;
+    });
 
-    if (!data.year || !data.holidays || !Array.isArray(data.holidays)) {
-      return { success: false, error: 'Invalid data format' };
-    }
+    return result;
+  } catch (error) {
+    console.error('Stat schedule parsing error:', error);
+    return { success: false, error: errorMessage(error, 'Failed to parse stat schedule') };
+  }
+}
 
-    const validHolidays = data.holidays.filter((h: ParsedStatHoliday) =>
-      h.name && h.date && h.qualification_start && h.qualification_end
-    );
+// One document read into one object. The prompt asks for {"error": ...} when the
+// image is some other kind of document, which is an answer rather than a failure.
+async function extractDocument<T>(
+  providers: AIProvider[],
+  task: 'manning_sheet' | 'toolbox_talk' | 'vacation_pay',
+  prompt: string,
+  imageBase64: string,
+  validate: (raw: unknown) => Validated<T> | null,
+  label: string
+): Promise<ExtractionResponse<T>> {
+  try {
+    const { result } = await completeWithFallback(providers, { task, prompt, file: imageBase64 }, response => {
+      const data = JSON.parse(extractJSONObject(response));
+      if (data.error) return { success: false, error: `This doesn't look like a ${label}` } as ExtractionResponse<T>;
 
-    if (validHolidays.length === 0) {
-      return { success: false, error: 'No valid holidays found' };
-    }
+      const validated = validate(data);
+      if (!validated) throw new Error(`The ${label} data was not in the expected format`);
+      return { success: true, data: validated.data, issues: validated.issues } as ExtractionResponse<T>;
+    });
 
-    return { success: true, year: data.year, holidays: validHolidays };
+    return result;
   } catch (error) {
-    console.error('Claude stat schedule parsing error, trying Gemini backup:', error);
-
-    // Fallback to Gemini
-    try {
-      const geminiKey = getGeminiApiKey();
-      if (!geminiKey) throw new Error('No Gemini API key available');
-
-      const response = await callGemini(geminiKey, prompt, imageBase64);
-      let jsonStr = extractJSON(response);
-      const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
-      if (jsonMatch) jsonStr = jsonMatch[0];
-
-      const data = JSON.parse(jsonStr);
-      if (data.error) return { success: false, error: data.error };
-      if (!data.year || !data.holidays || !Array.isArray(data.holidays)) {
-        return { success: false, error: 'Invalid data format' };
-      }
-
-      const validHolidays = data.holidays.filter((h: ParsedStatHoliday) =>
-        h.name && h.date && h.qualification_start && h.qualification_end
-      );
-
-      return validHolidays.length > 0
-        ? { success: true, year: data.year, holidays: validHolidays }
-        : { success: false, error: 'No valid holidays found' };
-    } catch (geminiError) {
-      console.error('Gemini backup also failed:', geminiError);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to parse stat schedule'
-      };
-    }
+    console.error(`${label} parsing error:`, error);
+    return { success: false, error: errorMessage(error, `Failed to parse ${label}`) };
   }
 }
 
-// Keep old name
-export const parseStatScheduleWithGemini = parseStatScheduleWithAI;
+export async function parseManningSheetWithAI(
+  providers: AIProvider[],
+  imageBase64: string
+): Promise<ExtractionResponse<ParsedManningSheet>> {
+  const prompt = `You are a JSON data extractor for longshore (ILWU) manning sheets - the dispatch sheet listing the jobs and workers for one ship or terminal on one shift.
+
+Extract:
+- date: The shift date in YYYY-MM-DD format
+- shift_type: "day" (starts around 8am), "afternoon" (starts around 4:30pm) or "graveyard" (starts around 1am), or null if not shown
+- terminal: The terminal or dock name, or null
+- ship: The vessel name, or null
+- gang: The gang or crew number, or null
+- assignments: One object per job line:
+  - job: The job or position (e.g. "Crane Operator", "Lasher", "Head Checker")
+  - worker: The worker's name if shown, otherwise null
+  - man_number: The worker's man/registration number if shown, otherwise null
+  - hours: Hours for that job if shown (number), otherwise null
 
-export async function testApiConnection(apiKey: string): Promise<boolean> {
-  try {
-    await callClaude(apiKey, 'Reply with just the word "OK"');
-    return true;
-  } catch {
-    return false;
-  }
+Return ONLY this JSON structure:
+{"date":"2026-01-29","shift_type":"day","terminal":"Deltaport","ship":"MSC Oscar","gang":"12","assignments":[{"job":"Crane Operator","worker":"J. Smith","man_number":"12345","hours":8}]}
+
+If this is NOT a manning sheet, return exactly:
+{"error":"not_manning_sheet"}
+
+NO explanations, NO markdown, ONLY the JSON object.`;
+
+  return extractDocument(providers, 'manning_sheet', prompt, imageBase64, validateManningSheet, 'manning sheet');
 }
 
-// Keep old name
-export const testGeminiConnection = testApiConnection;
+export async function parseToolboxTalkWithAI(
+  providers: AIProvider[],
+  imageBase64: string
+): Promise<ExtractionResponse<ParsedToolboxTalk>> {
+  const prompt = `You are a JSON data extractor for toolbox talk (safety meeting) records from a port terminal.
+
+Extract:
+- date: The date of the talk in YYYY-MM-DD format
+- topic: The topic or title of the talk
+- summary: A short summary of the safety points covered, at most 3 sentences
+
+Return ONLY this JSON structure:
+{"date":"2026-01-29","topic":"Working near moving equipment","summary":"Stay in marked walkways. Make eye contact with operators before crossing."}
+
+If this is NOT a toolbox talk or safety meeting record, return exactly:
+{"error":"not_toolbox_talk"}
 
-// --- Helpers ---
+NO explanations, NO markdown, ONLY the JSON object.`;
 
-function normalizeDate(dateStr: string): string {
-  const date = new Date(dateStr);
-  if (!isNaN(date.getTime())) {
-    return date.toISOString().split('T')[0];
+  return extractDocument(providers, 'toolbox_talk', prompt, imageBase64, validateToolboxTalk, 'toolbox talk');
+}
+
+export async function parseVacationPayWithAI(
+  providers: AIProvider[],
+  imageBase64: string
+): Promise<ExtractionResponse<ParsedVacationPay>> {
+  const prompt = `You are a JSON data extractor for Canadian longshore (ILWU) vacation pay statements.
+
+Extract:
+- statement_date: The date of the statement in YYYY-MM-DD format, or null
+- period_start: First day of the period the statement covers in YYYY-MM-DD format, or null
+- period_end: Last day of the period in YYYY-MM-DD format, or null
+- accrued: Vacation pay accrued (earned) in the period (number)
+- paid: Vacation pay paid out in the period (number)
+- balance: Vacation pay balance remaining (number), or null if not shown
+
+Numbers only, no currency symbols. Use 0 when an amount is shown as nil or blank.
+
+Return ONLY this JSON structure:
+{"statement_date":"2026-06-30","period_start":"2026-01-01","period_end":"2026-06-30","accrued":2450.75,"paid":1200.00,"balance":1250.75}
+
+If this is NOT a vacation pay statement, return exactly:
+{"error":"not_vacation_pay"}
+
+NO explanations, NO markdown, ONLY the JSON object.`;
+
+  return extractDocument(providers, 'vacation_pay', prompt, imageBase64, validateVacationPay, 'vacation pay statement');
+}
+
+// Turn a question about the user's own work into a HistoryQuery. The model only
+// picks from the fields below; the query itself is built and run locally.
+export async function parseHistoryQuestionWithAI(
+  providers: AIProvider[],
+  question: string,
+  context: { today: string; jobNames: string[] }
+): Promise<ExtractionResponse<HistoryQuery>> {
+  const prompt = `You turn a longshoreman's question about their own work history into a query description. Today is ${context.today}.
+
+The data:
+- Shifts ("entries"): date, shift_type (day, afternoon, graveyard), job, hours, location (terminal), ship, earnings
+- Time off ("time_off"): one row per day off, with type (vacation, sick, wcb, bereavement, union_business, jury_duty, unpaid); a half day counts as 0.5
+${context.jobNames.length ? `Their rated jobs are: ${context.jobNames.join(', ')}
+` : ''}
+Return ONLY a JSON object with these fields:
+- description: The question restated as what is being measured, e.g. "Graveyard shifts at Centerm in March 2026"
+- source: "entries" or "time_off"
+- metric: "count" (number of shifts or days off), "days" (distinct days worked), "hours", "earnings" or "list" (just show the matching rows)
+- group_by: Optional - "month", "shift_type", "job", "location", "ship" or "time_off_type", when the question asks for a breakdown
+- date_from, date_to: Optional YYYY-MM-DD dates, both inclusive. Resolve "this year", "March", "last month" etc. against today's date; a month with no year means the most recent one that has started
+- shift_types: Optional list of "day", "afternoon", "graveyard"
+- job, location, ship: Optional text, matched as part of the stored name
+- time_off_types: Optional list of "vacation", "sick", "wcb", "bereavement", "union_business", "jury_duty", "unpaid"
+
+Example - "how many graveyards did I work at Centerm in March?":
+{"description":"Graveyard shifts at Centerm in March 2026","source":"entries","metric":"count","date_from":"2026-03-01","date_to":"2026-03-31","shift_types":["graveyard"],"location":"Centerm"}
+
+If the question can't be answered from this data, return exactly:
+{"error":"unsupported"}
+
+NO explanations, NO markdown, ONLY the JSON object.
+
+Question: ${question}`;
+
+  try {
+    const { result } = await completeWithFallback(providers, { task: 'history_question', prompt }, response => {
+      const data = JSON.parse(extractJSONObject(response));
+      if (data.error) {
+        return { success: false, error: 'That question can only be answered from shifts and time off' } as ExtractionResponse<HistoryQuery>;
+      }
+
+      const validated = validateHistoryQuery(data);
+      if (!validated) throw new Error('The question could not be turned into a lookup');
+      return { success: true, data: validated.data, issues: validated.issues } as ExtractionResponse<HistoryQuery>;
+    });
+
+    return result;
+  } catch (error) {
+    console.error('History question error:', error);
+    return { success: false, error: errorMessage(error, 'Failed to understand the question') };
   }
-  return dateStr;
 }
 
-function normalizeShiftType(shift: string): 'day' | 'afternoon' | 'graveyard' {
-  const s = (shift || '').toLowerCase();
-  if (s.includes('grave') || s.includes('night') || s.includes('mid')) return 'graveyard';
-  if (s.includes('after') || s.includes('evening') || s.includes('pm') || s.includes('swing')) return 'afternoon';
-  return 'day';
+// Check one provider answers at all
+export async function testAIProvider(provider: AIProvider): Promise<boolean> {
+  try {
+    return (await provider.complete({ task: 'connection_test', prompt: 'Reply with just the word "OK"' })) !== null;
+  } catch {
+    return false;
+  }
 }
@@ -0,0 +1,338 @@
+// AI providers - every model the parsers can use sits behind the same interface,
+// tried in the user's order until one returns a usable answer.
+
+import { CapacitorHttp } from '@capacitor/core';
+
+export type AIProviderId = 'anthropic' | 'gemini' | 'local' | 'fixture' | 'cache';
+
+// What a request is for - lets fixtures replay the right response
+export type AITask =
+  | 'paystub'
+  | 'timesheet'
+  | 'stat_schedule'
+  | 'manning_sheet'
+  | 'toolbox_talk'
+  | 'vacation_pay'
+  | 'history_question'
+  | 'connection_test';
+
+export interface AIRequest {
+  task: AITask;
+  prompt: string;
+  file?: string; // Data URL of an image or PDF
+}
+
+export interface AICompletion {
+  text: string;
+  provider: AIProviderId;
+  model: string;
+  inputTokens: number | null;
+  outputTokens: number | null;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  // Null when the provider has nothing to offer, e.g. a cache miss - the next one is tried
+  complete(request: AIRequest): Promise<AICompletion | null>;
+}
+
+// Stored on the profile as JSON (user.ai_settings)
+export interface AISettings {
+  order: Array<Exclude<AIProviderId, 'fixture' | 'cache'>>; // Enabled providers, first tried first
+  localUrl: string; // OpenAI-compatible base URL, e.g. http://192.168.1.20:1234/v1
+  localModel: string;
+  localApiKey: string;
+}
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  order: ['anthropic', 'gemini'],
+  localUrl: '',
+  localModel: '',
+  localApiKey: ''
+};
+
+export const AI_PROVIDER_NAMES: Record<AIProviderId, string> = {
+  anthropic: 'Anthropic Claude',
+  gemini: 'Google Gemini',
+  local: 'Local (OpenAI-compatible)',
+  fixture: 'Recorded fixtures',
+  cache: 'Saved answers'
+};
+
+export function parseAISettings(json: string | null): AISettings {
+  if (!json) return { ...DEFAULT_AI_SETTINGS, order: [...DEFAULT_AI_SETTINGS.order] };
+  try {
+    const stored = JSON.parse(json) as Partial<AISettings>;
+    const known = ['anthropic', 'gemini', 'local'] as const;
+    const order = Array.isArray(stored.order)
+      ? [...new Set(stored.order.filter(id => (known as readonly string[]).includes(id)))]
+      : [...DEFAULT_AI_SETTINGS.order];
+    return {
+      order,
+      localUrl: typeof stored.localUrl === 'string' ? stored.localUrl : '',
+      localModel: typeof stored.localModel === 'string' ? stored.localModel : '',
+      localApiKey: typeof stored.localApiKey === 'string' ? stored.localApiKey : ''
+    };
+  } catch {
+    return { ...DEFAULT_AI_SETTINGS, order: [...DEFAULT_AI_SETTINGS.order] };
+  }
+}
+
+const MAX_TOKENS = 4096;
+
+// List prices in US dollars per million tokens, matched on the start of the model name
+const MODEL_PRICES: Array<{ model: string; input: number; output: number }> = [
+  { model: 'claude-sonnet-4', input: 3, output: 15 },
+  { model: 'gemini-2.0-flash', input: 0.1, output: 0.4 }
+];
+
+// Estimated cost of a call in US dollars, or null for a paid model with no known price
+export function estimateAICost(
+  provider: string,
+  model: string,
+  inputTokens: number | null,
+  outputTokens: number | null
+): number | null {
+  if (provider === 'local' || provider === 'fixture') return 0;
+  const price = MODEL_PRICES.find(p => model.startsWith(p.model));
+  if (!price) return null;
+  return ((inputTokens || 0) * price.input + (outputTokens || 0) * price.output) / 1_000_000;
+}
+
+function parseDataURL(dataURL: string): { mediaType: string; data: string } | null {
+  const commaIndex = dataURL.indexOf(',');
+  const semicolonIndex = dataURL.indexOf(';');
+
+  if (commaIndex <= 0 || semicolonIndex <= 0) {
+    console.error('Failed to parse DataURL - invalid format');
+    return null;
+  }
+
+  let mediaType = dataURL.substring(5, semicolonIndex);
+  const data = dataURL.substring(commaIndex + 1);
+
+  if (mediaType === 'image/jpg') {
+    mediaType = 'image/jpeg';
+  }
+
+  return { mediaType, data };
+}
+
+// --- Anthropic ---
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_MODEL = 'claude-sonnet-4-5-20250929';
+
+export function createAnthropicProvider(apiKey: string): AIProvider {
+  return {
+    id: 'anthropic',
+    name: AI_PROVIDER_NAMES.anthropic,
+
+    async complete(request) {
+      const content: Array<{ type: string; text?: string; source?: { type: string; media_type: string; data: string } }> = [];
+
+      const parsed = request.file ? parseDataURL(request.file) : null;
+      if (parsed) {
+        if (parsed.mediaType === 'application/pdf') {
+          content.push({ type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: parsed.data } });
+        } else if (['image/jpeg', 'image/png', 'image/gif', 'image/webp'].includes(parsed.mediaType)) {
+          content.push({ type: 'image', source: { type: 'base64', media_type: parsed.mediaType, data: parsed.data } });
+        } else {
+          console.warn(`Unknown media type: ${parsed.mediaType}, attempting as image/jpeg`);
+          content.push({ type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: parsed.data } });
+        }
+      }
+      content.push({ type: 'text', text: request.prompt });
+
+      // CapacitorHttp goes through the native layer, so no CORS preflight to fail
+      const response = await CapacitorHttp.post({
+        url: ANTHROPIC_API_URL,
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01'
+        },
+        data: { model: ANTHROPIC_MODEL, max_tokens: MAX_TOKENS, messages: [{ role: 'user', content }] }
+      });
+
+      let responseData = response.data;
+      if (typeof responseData === 'string') {
+        try {
+          responseData = JSON.parse(responseData);
+        } catch {
+          console.error('Failed to parse response as JSON:', responseData.substring(0, 500));
+          throw new Error('Invalid response from API');
+        }
+      }
+
+      if (response.status !== 200) {
+        console.error('Claude API error:', JSON.stringify(responseData));
+        throw new Error(responseData?.error?.message || `API request failed with status ${response.status}`);
+      }
+
+      return {
+        text: responseData?.content?.[0]?.text || '',
+        provider: 'anthropic',
+        model: responseData?.model || ANTHROPIC_MODEL,
+        inputTokens: responseData?.usage?.input_tokens ?? null,
+        outputTokens: responseData?.usage?.output_tokens ?? null
+      };
+    }
+  };
+}
+
+// --- Gemini ---
+
+const GEMINI_MODEL = 'gemini-2.0-flash';
+const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`;
+
+export function createGeminiProvider(apiKey: string): AIProvider {
+  return {
+    id: 'gemini',
+    name: AI_PROVIDER_NAMES.gemini,
+
+    async complete(request) {
+      const parts: Array<{ text: string } | { inline_data: { mime_type: string; data: string } }> = [];
+      const parsed = request.file ? parseDataURL(request.file) : null;
+      if (parsed) {
+        parts.push({ inline_data: { mime_type: parsed.mediaType, data: parsed.data } });
+      }
+      parts.push({ text: request.prompt });
+
+      const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ parts }],
+          generationConfig: { temperature: 0.1, maxOutputTokens: MAX_TOKENS }
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error?.message || 'Gemini API request failed');
+      }
+
+      const result = await response.json();
+      return {
+        text: result.candidates?.[0]?.content?.parts?.[0]?.text || '',
+        provider: 'gemini',
+        model: GEMINI_MODEL,
+        inputTokens: result.usageMetadata?.promptTokenCount ?? null,
+        outputTokens: result.usageMetadata?.candidatesTokenCount ?? null
+      };
+    }
+  };
+}
+
+// --- Local (OpenAI-compatible: LM Studio, Ollama, llama.cpp server, ...) ---
+
+export function createLocalProvider(baseUrl: string, model: string, apiKey = ''): AIProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'local',
+    name: AI_PROVIDER_NAMES.local,
+
+    async complete(request) {
+      const content: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = [];
+      const parsed = request.file ? parseDataURL(request.file) : null;
+      if (parsed) {
+        // The chat completions format only takes images
+        if (!parsed.mediaType.startsWith('image/')) throw new Error('The local model can only read images, not PDFs');
+        content.push({ type: 'image_url', image_url: { url: request.file! } });
+      }
+      content.push({ type: 'text', text: request.prompt });
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: model || undefined,
+          max_tokens: MAX_TOKENS,
+          temperature: 0.1,
+          messages: [{ role: 'user', content }]
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error?.message || `Local model request failed with status ${response.status}`);
+      }
+
+      const result = await response.json();
+      return {
+        text: result.choices?.[0]?.message?.content || '',
+        provider: 'local',
+        model: result.model || model || 'local',
+        inputTokens: result.usage?.prompt_tokens ?? null,
+        outputTokens: result.usage?.completion_tokens ?? null
+      };
+    }
+  };
+}
+
+// --- Fixture replay ---
+
+// A recorded model response. `match` narrows a fixture to prompts containing it,
+// e.g. a line of the timesheet text being parsed.
+export interface AIFixture {
+  task: AITask;
+  response: string;
+  match?: string;
+}
+
+// Replays recorded responses instead of calling a model, so the parsing pipelines
+// can be exercised offline. Takes the fixtures, or a URL of a JSON array of them.
+export function createFixtureProvider(source: AIFixture[] | string): AIProvider {
+  let fixtures: AIFixture[] | null = typeof source === 'string' ? null : source;
+
+  return {
+    id: 'fixture',
+    name: AI_PROVIDER_NAMES.fixture,
+
+    async complete(request) {
+      if (!fixtures) {
+        const response = await fetch(source as string);
+        if (!response.ok) throw new Error(`Could not load AI fixtures from ${source}`);
+        fixtures = (await response.json()) as AIFixture[];
+      }
+
+      const fixture =
+        fixtures.find(f => f.task === request.task && f.match && request.prompt.includes(f.match)) ||
+        fixtures.find(f => f.task === request.task && !f.match);
+      if (!fixture) throw new Error(`No AI fixture recorded for ${request.task}`);
+
+      return { text: fixture.response, provider: 'fixture', model: 'fixture', inputTokens: null, outputTokens: null };
+    }
+  };
+}
+
+// --- Fallback ---
+
+// Ask each provider in turn until one answers and `parse` accepts the answer.
+// A parse error counts as a failure, so a garbled reply falls through to the next provider.
+export async function completeWithFallback<T>(
+  providers: AIProvider[],
+  request: AIRequest,
+  parse: (text: string) => T
+): Promise<{ result: T; completion: AICompletion }> {
+  if (providers.length === 0) throw new Error('No AI provider is set up');
+
+  let firstError: unknown = null;
+  for (const provider of providers) {
+    try {
+      const completion = await provider.complete(request);
+      if (!completion) continue;
+      return { result: parse(completion.text), completion };
+    } catch (error) {
+      console.error(`${provider.name} failed for ${request.task}:`, error);
+      firstError ??= error;
+    }
+  }
+  throw firstError ?? new Error('No AI provider answered');
+}
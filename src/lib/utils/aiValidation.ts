@@ -0,0 +1,498 @@
+// Runtime checks on what an AI model extracted. A small schema pass coerces each
+// field to its type and records field-level errors (an item missing a required
+// field is dropped), then sanity rules flag values that parse but don't add up.
+// Issues are keyed by field path (e.g. "line_items.2.amount") so a review screen
+// can highlight the exact value.
+
+import type {
+  ParsedPaystubData,
+  ParsedPaystubLineItem,
+  ParsedTimesheetEntry,
+  ParsedStatHoliday,
+  ParsedManningSheet,
+  ParsedManningAssignment,
+  ParsedToolboxTalk,
+  ParsedVacationPay
+} from './ai';
+import { parseCsvDate, normalizeShiftType } from './csv';
+import { localToday } from './dates';
+import type { ShiftType } from './earnings';
+import {
+  HISTORY_SOURCES,
+  HISTORY_METRICS,
+  HISTORY_GROUPS,
+  HISTORY_TIME_OFF_TYPES,
+  ENTRY_ONLY_FIELDS,
+  TIME_OFF_ONLY_FIELDS,
+  ENTRY_ONLY_METRICS,
+  ENTRY_ONLY_GROUPS,
+  TIME_OFF_ONLY_GROUPS,
+  type HistoryQuery
+} from './historyQuery';
+
+export interface ValidationIssue {
+  path: string;
+  severity: 'error' | 'warning'; // error = value unusable, warning = worth a second look
+  message: string;
+}
+
+export interface Validated<T> {
+  data: T;
+  issues: ValidationIssue[];
+}
+
+export type FieldConfidence = 'high' | 'low' | 'invalid';
+
+// Confidence in one field (or anything under it, for a row path)
+export function fieldConfidence(issues: ValidationIssue[], path: string): FieldConfidence {
+  const matching = issues.filter(i => i.path === path || i.path.startsWith(`${path}.`));
+  if (matching.some(i => i.severity === 'error')) return 'invalid';
+  return matching.length > 0 ? 'low' : 'high';
+}
+
+export function fieldMessages(issues: ValidationIssue[], path: string): string[] {
+  return issues.filter(i => i.path === path || i.path.startsWith(`${path}.`)).map(i => i.message);
+}
+
+// --- Schema ---
+
+type Schema<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T | undefined;
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function number(options: { min?: number; max?: number; label: string }): Schema<number> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      issues.push({ path, severity: 'error', message: `Missing ${options.label}` });
+      return undefined;
+    }
+    // Models sometimes answer "$1,234.50" instead of 1234.5
+    const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''));
+    if (!isFinite(parsed)) {
+      issues.push({ path, severity: 'error', message: `${capitalize(options.label)} "${String(value)}" isn't a number` });
+      return undefined;
+    }
+    if ((options.min !== undefined && parsed < options.min) || (options.max !== undefined && parsed > options.max)) {
+      issues.push({ path, severity: 'error', message: `${capitalize(options.label)} ${parsed} is out of range` });
+      return undefined;
+    }
+    return parsed;
+  };
+}
+
+function text(label: string): Schema<string> {
+  return (value, path, issues) => {
+    if (isMissing(value) || typeof value === 'object') {
+      issues.push({ path, severity: 'error', message: `Missing ${label}` });
+      return undefined;
+    }
+    return String(value).trim();
+  };
+}
+
+// YYYY-MM-DD; other formats are converted but marked for review
+function date(label: string): Schema<string> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      issues.push({ path, severity: 'error', message: `Missing ${label}` });
+      return undefined;
+    }
+    const raw = String(value).trim();
+    const parsed = parseCsvDate(raw);
+    if (!parsed) {
+      issues.push({ path, severity: 'error', message: `Unrecognized ${label} "${raw}"` });
+      return undefined;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+      issues.push({ path, severity: 'warning', message: `${capitalize(label)} "${raw}" read as ${parsed}` });
+    }
+    return parsed;
+  };
+}
+
+// One of a fixed set of words, in any case
+function oneOf<T extends string>(values: readonly T[], label: string): Schema<T> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      issues.push({ path, severity: 'error', message: `Missing ${label}` });
+      return undefined;
+    }
+    const word = String(value).trim().toLowerCase();
+    if (!values.includes(word as T)) {
+      issues.push({ path, severity: 'error', message: `Unknown ${label} "${String(value)}"` });
+      return undefined;
+    }
+    return word as T;
+  };
+}
+
+// Absent is fine; an invalid value is dropped with a warning instead of failing the object
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => {
+    if (isMissing(value)) return undefined;
+    const own: ValidationIssue[] = [];
+    const parsed = schema(value, path, own);
+    issues.push(...own.map(i => (i.severity === 'error' ? { ...i, severity: 'warning' as const, message: `${i.message} - ignored` } : i)));
+    return parsed;
+  };
+}
+
+function object<T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, severity: 'error', message: 'Expected an object' });
+      return undefined;
+    }
+    const source = value as Record<string, unknown>;
+    const result = {} as T;
+    let valid = true;
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const before = issues.length;
+      const parsed = shape[key](source[key], fieldPath, issues);
+      if (parsed !== undefined) result[key] = parsed as T[keyof T & string];
+      // Errors under a field that still produced a value (a list with skipped items) don't fail the object
+      if (parsed === undefined && issues.slice(before).some(i => i.severity === 'error')) valid = false;
+    }
+    return valid ? result : undefined;
+  };
+}
+
+// Items that fail are left out and reported as one error on the array itself;
+// kept items' issues are re-keyed to their position in the result
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, severity: 'error', message: 'Expected a list' });
+      return undefined;
+    }
+    const result: T[] = [];
+    value.forEach((raw, index) => {
+      const itemIssues: ValidationIssue[] = [];
+      const parsed = item(raw, `${path}.${index}`, itemIssues);
+      if (parsed === undefined) {
+        issues.push({ path, severity: 'error', message: `Item ${index + 1} skipped: ${itemIssues.filter(i => i.severity === 'error').map(i => i.message).join(', ')}` });
+        return;
+      }
+      const from = `${path}.${index}`;
+      const to = `${path}.${result.length}`;
+      for (const issue of itemIssues) issues.push({ ...issue, path: to + issue.path.slice(from.length) });
+      result.push(parsed);
+    });
+    return result;
+  };
+}
+
+// --- Sanity rules ---
+
+const AMOUNT_TOLERANCE = 0.05; // Dollars per line, or 1% of the amount if more
+const GROSS_TOLERANCE = 1;
+const MAX_SHIFT_HOURS = 16;
+
+function near(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) <= tolerance;
+}
+
+function money(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// --- Pay stubs ---
+
+const paystubLineItem = object<ParsedPaystubLineItem>({
+  date: date('date'),
+  type: (value, path, issues) => {
+    const type = String(value ?? '').toLowerCase();
+    if (type === 'regular' || type === 'overtime') return type;
+    issues.push({ path, severity: 'warning', message: `Unknown line type "${String(value ?? '')}", treated as regular` });
+    return 'regular';
+  },
+  rate: number({ min: 0, max: 1000, label: 'rate' }),
+  hours: number({ min: 0, max: 24, label: 'hours' }),
+  amount: number({ min: 0, label: 'amount' })
+});
+
+const optionalMoney = (label: string) => optional(number({ min: 0, label }));
+
+const paystubSchema = object<ParsedPaystubData>({
+  line_items: (value, path, issues) => (isMissing(value) ? [] : array(paystubLineItem)(value, path, issues)),
+  gross_pay: optionalMoney('gross pay'),
+  net_pay: optionalMoney('net pay'),
+  total_hours: optional(number({ min: 0, max: 400, label: 'total hours' })),
+  federal_tax: optionalMoney('federal tax'),
+  provincial_tax: optionalMoney('provincial tax'),
+  cpp: optionalMoney('CPP'),
+  ei: optionalMoney('EI'),
+  union_dues: optionalMoney('union dues'),
+  pension_contribution: optionalMoney('pension contribution'),
+  other_deductions: optionalMoney('other deductions'),
+  pay_period_start: optional(date('pay period start')),
+  pay_period_end: optional(date('pay period end')),
+  hours_worked: optional(number({ min: 0, label: 'hours worked' }))
+});
+
+export function validatePaystub(raw: unknown): Validated<ParsedPaystubData> | null {
+  const issues: ValidationIssue[] = [];
+  const data = paystubSchema(raw, '', issues);
+  if (!data) return null;
+
+  data.line_items.forEach((item, index) => {
+    // Overtime lines are units x rate too, so the rule holds for both
+    const expected = item.rate * item.hours;
+    if (item.rate > 0 && item.hours > 0 && !near(item.amount, expected, Math.max(AMOUNT_TOLERANCE, item.amount * 0.01))) {
+      issues.push({
+        path: `line_items.${index}.amount`,
+        severity: 'warning',
+        message: `${item.date}: ${money(item.amount)} doesn't match ${item.hours} hrs x ${money(item.rate)} (${money(expected)})`
+      });
+    }
+    if (
+      (data.pay_period_start && item.date < data.pay_period_start) ||
+      (data.pay_period_end && item.date > data.pay_period_end)
+    ) {
+      issues.push({ path: `line_items.${index}.date`, severity: 'warning', message: `${item.date} is outside the pay period` });
+    }
+  });
+
+  if (data.pay_period_start && data.pay_period_end && data.pay_period_start > data.pay_period_end) {
+    issues.push({ path: 'pay_period_end', severity: 'warning', message: 'Pay period ends before it starts' });
+  }
+
+  const lineTotal = data.line_items.reduce((sum, item) => sum + item.amount, 0);
+  if (data.gross_pay !== undefined && data.line_items.length > 0 && !near(data.gross_pay, lineTotal, GROSS_TOLERANCE)) {
+    issues.push({
+      path: 'gross_pay',
+      severity: 'warning',
+      message: `Gross ${money(data.gross_pay)} doesn't match the line items (${money(lineTotal)})`
+    });
+  }
+
+  if (data.gross_pay !== undefined && data.net_pay !== undefined && data.net_pay > data.gross_pay) {
+    issues.push({ path: 'net_pay', severity: 'warning', message: 'Net pay is more than gross pay' });
+  }
+
+  return { data, issues };
+}
+
+// --- Timesheets ---
+
+const timesheetEntry = object<ParsedTimesheetEntry>({
+  date: date('date'),
+  shift_type: (value, path, issues) => {
+    const shift = normalizeShiftType(String(value ?? ''));
+    if (shift) return shift;
+    issues.push({ path, severity: 'warning', message: `Unknown shift "${String(value ?? '')}", assumed day` });
+    return 'day';
+  },
+  hours: number({ min: 0.5, max: 24, label: 'hours' }),
+  job_name: (value) => (isMissing(value) ? 'Imported' : String(value).trim()),
+  earnings: optional(number({ min: 0, label: 'earnings' })),
+  location: optional(text('location')),
+  ship: optional(text('ship'))
+});
+
+export function validateTimesheet(raw: unknown): Validated<ParsedTimesheetEntry[]> | null {
+  const issues: ValidationIssue[] = [];
+  const entries = array(timesheetEntry)(raw, 'entries', issues);
+  if (!entries) return null;
+
+  const today = localToday();
+  const seen = new Set<string>();
+  entries.forEach((entry, index) => {
+    if (entry.hours > MAX_SHIFT_HOURS) {
+      issues.push({ path: `entries.${index}.hours`, severity: 'warning', message: `${entry.date}: ${entry.hours} hrs is a long shift` });
+    }
+    if (entry.date > today) {
+      issues.push({ path: `entries.${index}.date`, severity: 'warning', message: `${entry.date} is in the future` });
+    }
+    const key = `${entry.date}|${entry.shift_type}`;
+    if (seen.has(key)) {
+      issues.push({ path: `entries.${index}.shift_type`, severity: 'warning', message: `A second ${entry.shift_type} shift on ${entry.date}` });
+    }
+    seen.add(key);
+  });
+
+  return { data: entries, issues };
+}
+
+// --- Stat holiday schedules ---
+
+const statHoliday = object<ParsedStatHoliday>({
+  name: text('name'),
+  date: date('date'),
+  qualification_start: date('qualifying start'),
+  qualification_end: date('qualifying end'),
+  pay_date: optional(date('pay date'))
+});
+
+export function validateStatSchedule(raw: unknown): Validated<{ year: number; holidays: ParsedStatHoliday[] }> | null {
+  const issues: ValidationIssue[] = [];
+  const data = object<{ year: number; holidays: ParsedStatHoliday[] }>({
+    year: number({ min: 2000, max: 2100, label: 'year' }),
+    holidays: array(statHoliday)
+  })(raw, '', issues);
+  if (!data) return null;
+
+  data.holidays.forEach((holiday, index) => {
+    const path = `holidays.${index}`;
+    if (Number(holiday.date.slice(0, 4)) !== data.year) {
+      issues.push({ path: `${path}.date`, severity: 'warning', message: `${holiday.date} isn't in ${data.year}` });
+    }
+    if (holiday.qualification_start > holiday.qualification_end) {
+      issues.push({ path: `${path}.qualification_end`, severity: 'warning', message: 'Qualifying window ends before it starts' });
+    }
+    if (holiday.qualification_end >= holiday.date) {
+      issues.push({ path: `${path}.qualification_end`, severity: 'warning', message: 'Qualifying window runs past the holiday' });
+    }
+    if (holiday.pay_date && holiday.pay_date < holiday.date) {
+      issues.push({ path: `${path}.pay_date`, severity: 'warning', message: 'Paid before the holiday' });
+    }
+  });
+
+  return { data, issues };
+}
+
+// --- Manning sheets ---
+
+const manningAssignment = object<ParsedManningAssignment>({
+  job: text('job'),
+  worker: optional(text('worker')),
+  man_number: optional(text('man number')),
+  hours: optional(number({ min: 0.5, max: 24, label: 'hours' }))
+});
+
+export function validateManningSheet(raw: unknown): Validated<ParsedManningSheet> | null {
+  const issues: ValidationIssue[] = [];
+  const data = object<ParsedManningSheet>({
+    date: date('date'),
+    shift_type: (value, path, issues) => {
+      if (isMissing(value)) return undefined;
+      const shift = normalizeShiftType(String(value));
+      if (!shift) issues.push({ path, severity: 'warning', message: `Unknown shift "${String(value)}" - ignored` });
+      return shift ?? undefined;
+    },
+    terminal: optional(text('terminal')),
+    ship: optional(text('ship')),
+    gang: optional(text('gang')),
+    assignments: (value, path, issues) => (isMissing(value) ? [] : array(manningAssignment)(value, path, issues))
+  })(raw, '', issues);
+  if (!data) return null;
+
+  if (data.assignments.length === 0) {
+    issues.push({ path: 'assignments', severity: 'warning', message: 'No job assignments found' });
+  }
+  data.assignments.forEach((assignment, index) => {
+    if (assignment.hours !== undefined && assignment.hours > MAX_SHIFT_HOURS) {
+      issues.push({ path: `assignments.${index}.hours`, severity: 'warning', message: `${assignment.job}: ${assignment.hours} hrs is a long shift` });
+    }
+  });
+
+  return { data, issues };
+}
+
+// --- Toolbox talks ---
+
+export function validateToolboxTalk(raw: unknown): Validated<ParsedToolboxTalk> | null {
+  const issues: ValidationIssue[] = [];
+  const data = object<ParsedToolboxTalk>({
+    date: date('date'),
+    topic: text('topic'),
+    summary: text('summary')
+  })(raw, '', issues);
+  if (!data) return null;
+
+  if (data.date > localToday()) {
+    issues.push({ path: 'date', severity: 'warning', message: `${data.date} is in the future` });
+  }
+
+  return { data, issues };
+}
+
+// --- Vacation pay statements ---
+
+export function validateVacationPay(raw: unknown): Validated<ParsedVacationPay> | null {
+  const issues: ValidationIssue[] = [];
+  const data = object<ParsedVacationPay>({
+    statement_date: optional(date('statement date')),
+    period_start: optional(date('period start')),
+    period_end: optional(date('period end')),
+    accrued: number({ min: 0, label: 'accrued amount' }),
+    paid: number({ min: 0, label: 'paid amount' }),
+    balance: optional(number({ label: 'balance' }))
+  })(raw, '', issues);
+  if (!data) return null;
+
+  if (data.period_start && data.period_end && data.period_start > data.period_end) {
+    issues.push({ path: 'period_end', severity: 'warning', message: 'Period ends before it starts' });
+  }
+  // A balance carried over from an earlier statement also explains a difference
+  if (data.balance !== undefined && !near(data.balance, data.accrued - data.paid, GROSS_TOLERANCE)) {
+    issues.push({
+      path: 'balance',
+      severity: 'warning',
+      message: `Balance ${money(data.balance)} isn't accrued minus paid (${money(data.accrued - data.paid)})`
+    });
+  }
+
+  return { data, issues };
+}
+
+// --- Work history questions ---
+
+const shiftTypeWord: Schema<ShiftType> = (value, path, issues) => {
+  const shift = normalizeShiftType(String(value ?? ''));
+  if (!shift) issues.push({ path, severity: 'error', message: `Unknown shift "${String(value ?? '')}"` });
+  return shift ?? undefined;
+};
+
+const historyQuery = object<HistoryQuery>({
+  description: text('description'),
+  source: oneOf(HISTORY_SOURCES, 'source'),
+  metric: oneOf(HISTORY_METRICS, 'measure'),
+  group_by: optional(oneOf(HISTORY_GROUPS, 'grouping')),
+  date_from: optional(date('start date')),
+  date_to: optional(date('end date')),
+  shift_types: optional(array(shiftTypeWord)),
+  job: optional(text('job')),
+  location: optional(text('location')),
+  ship: optional(text('ship')),
+  time_off_types: optional(array(oneOf(HISTORY_TIME_OFF_TYPES, 'time off type')))
+});
+
+// The query plan the model made for a question. Anything outside the fixed
+// vocabulary fails; parts that don't fit the source are dropped with a warning.
+export function validateHistoryQuery(raw: unknown): Validated<HistoryQuery> | null {
+  const issues: ValidationIssue[] = [];
+  const query = historyQuery(raw, '', issues);
+  if (!query) return null;
+
+  if (query.shift_types?.length === 0) delete query.shift_types;
+  if (query.time_off_types?.length === 0) delete query.time_off_types;
+
+  const timeOff = query.source === 'time_off';
+  for (const field of timeOff ? ENTRY_ONLY_FIELDS : TIME_OFF_ONLY_FIELDS) {
+    if (query[field] === undefined) continue;
+    delete query[field];
+    issues.push({ path: field, severity: 'warning', message: `Ignored the ${field.replace(/_/g, ' ')} filter - it doesn't apply to ${timeOff ? 'time off' : 'shifts'}` });
+  }
+  if (timeOff && ENTRY_ONLY_METRICS.includes(query.metric)) {
+    issues.push({ path: 'metric', severity: 'warning', message: `Time off has no ${query.metric} - counted days instead` });
+    query.metric = 'days';
+  }
+  if (query.group_by && (timeOff ? ENTRY_ONLY_GROUPS : TIME_OFF_ONLY_GROUPS).includes(query.group_by)) {
+    issues.push({ path: 'group_by', severity: 'warning', message: `Can't break ${timeOff ? 'time off' : 'shifts'} down by ${query.group_by.replace(/_/g, ' ')}` });
+    delete query.group_by;
+  }
+  if (query.date_from && query.date_to && query.date_from > query.date_to) {
+    issues.push({ path: 'date_to', severity: 'warning', message: 'Dates were the wrong way round - swapped' });
+    [query.date_from, query.date_to] = [query.date_to, query.date_from];
+  }
+
+  return { data: query, issues };
+}
@@ -0,0 +1,338 @@
+// Full database backup and restore
+// Archives are JSON envelopes holding an AES-GCM encrypted payload; the key is
+// derived from the user's passphrase with PBKDF2, so a lost passphrase means a lost backup.
+
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { database, getSchemaVersion, importBatchQueries } from '$lib/db';
+import { bytesToBase64, base64ToBytes } from './files';
+
+const BACKUP_FORMAT = 'docklogbc-backup';
+export const BACKUP_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 250000;
+const DOCUMENTS_DIR = 'documents';
+
+// Tables included in a backup, in insert order (parents before children).
+// mergeKeys identify "the same row" when merging into existing data; null = single-row table.
+// Left out on purpose: import_batches and import_batch_items, whose undo logs point at
+// entry ids a restore replaces or renumbers (a replace clears them), and ai_parse_cache,
+// which only saves asking the model again.
+const BACKUP_TABLES: Array<{ name: string; mergeKeys: string[] | null }> = [
+  { name: 'user', mergeKeys: null },
+  { name: 'rated_jobs', mergeKeys: ['name'] },
+  { name: 'pay_rates', mergeKeys: ['shift_type', 'effective_from'] },
+  { name: 'entries', mergeKeys: ['date', 'shift_type', 'job_type', 'rated_job_id', 'hall_job_name', 'hours'] },
+  { name: 'documents', mergeKeys: ['name', 'created_at'] },
+  { name: 'paystub_reviews', mergeKeys: ['document_id', 'date', 'kind'] },
+  { name: 'pay_periods', mergeKeys: ['start_date'] },
+  { name: 'career_adjustments', mergeKeys: ['date', 'hours', 'reason'] },
+  { name: 'time_off', mergeKeys: ['date'] },
+  { name: 'time_off_entitlements', mergeKeys: ['year', 'type'] },
+  { name: 'period_summaries', mergeKeys: ['period_type', 'period_start', 'period_end'] },
+  { name: 'stat_holidays', mergeKeys: ['year', 'name', 'date'] },
+  { name: 'stat_holiday_versions', mergeKeys: ['year', 'source', 'created_at'] },
+  { name: 'share_groups', mergeKeys: ['platform', 'identifier'] },
+  { name: 'ai_usage', mergeKeys: ['task', 'provider', 'model', 'created_at'] }
+];
+
+type Row = Record<string, unknown>;
+
+export interface BackupFile {
+  path: string; // Relative to Directory.Data, e.g. documents/paystub_123.jpg
+  data: string; // base64
+}
+
+export interface BackupPayload {
+  version: number;
+  schema_version: number;
+  created_at: string;
+  tables: Record<string, Row[]>;
+  files: BackupFile[];
+}
+
+interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+export interface BackupPreview {
+  createdAt: string;
+  schemaVersion: number;
+  tables: Record<string, number>;
+  fileCount: number;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreResult {
+  inserted: Record<string, number>;
+  skipped: Record<string, number>;
+  filesRestored: number;
+}
+
+// Thrown for anything the user can act on: wrong passphrase, wrong file, newer app version
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// --- Encryption ---
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptPayload(payload: BackupPayload, passphrase: string): Promise<BackupEnvelope> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const plaintext = new TextEncoder().encode(JSON.stringify(payload));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    created_at: payload.created_at,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: bytesToBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) },
+    data: bytesToBase64(new Uint8Array(ciphertext))
+  };
+}
+
+async function decryptPayload(envelope: BackupEnvelope, passphrase: string): Promise<BackupPayload> {
+  const key = await deriveKey(passphrase, base64ToBytes(envelope.kdf.salt), envelope.kdf.iterations);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(envelope.cipher.iv) },
+      key,
+      base64ToBytes(envelope.data)
+    );
+  } catch {
+    // AES-GCM authentication fails for both a wrong passphrase and a tampered file
+    throw new BackupError('Wrong passphrase, or the backup file is damaged.');
+  }
+
+  return JSON.parse(new TextDecoder().decode(plaintext)) as BackupPayload;
+}
+
+// --- Files ---
+
+async function readDocumentFiles(): Promise<BackupFile[]> {
+  let names: string[];
+  try {
+    const result = await Filesystem.readdir({ path: DOCUMENTS_DIR, directory: Directory.Data });
+    names = result.files.filter(f => f.type === 'file').map(f => f.name);
+  } catch {
+    // No documents folder yet
+    return [];
+  }
+
+  const files: BackupFile[] = [];
+  for (const name of names) {
+    const path = `${DOCUMENTS_DIR}/${name}`;
+    try {
+      const file = await Filesystem.readFile({ path, directory: Directory.Data });
+      files.push({ path, data: file.data as string });
+    } catch (error) {
+      console.error('Backup: failed to read file', path, error);
+    }
+  }
+  return files;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await Filesystem.stat({ path, directory: Directory.Data });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// --- Public API ---
+
+// Serialize every table and document file into an encrypted archive
+export async function createBackup(passphrase: string): Promise<{ fileName: string; content: string }> {
+  if (!passphrase) throw new BackupError('A passphrase is required.');
+
+  const tables: Record<string, Row[]> = {};
+  for (const { name } of BACKUP_TABLES) {
+    tables[name] = await database.query<Row>(`SELECT * FROM ${name}`);
+  }
+
+  const payload: BackupPayload = {
+    version: BACKUP_VERSION,
+    schema_version: await getSchemaVersion(),
+    created_at: new Date().toISOString(),
+    tables,
+    files: await readDocumentFiles()
+  };
+
+  const envelope = await encryptPayload(payload, passphrase);
+  const fileName = `docklogbc-backup-${payload.created_at.split('T')[0]}.dlbk`;
+
+  return { fileName, content: JSON.stringify(envelope) };
+}
+
+// Decrypt and validate an archive without touching the database
+export async function readBackup(content: string, passphrase: string): Promise<BackupPayload> {
+  let envelope: BackupEnvelope;
+  try {
+    envelope = JSON.parse(content) as BackupEnvelope;
+  } catch {
+    throw new BackupError('This is not a DockLogBC backup file.');
+  }
+
+  if (envelope?.format !== BACKUP_FORMAT || !envelope.kdf || !envelope.cipher || !envelope.data) {
+    throw new BackupError('This is not a DockLogBC backup file.');
+  }
+  if (envelope.version > BACKUP_VERSION) {
+    throw new BackupError('This backup was made by a newer version of DockLogBC. Update the app to restore it.');
+  }
+
+  const payload = await decryptPayload(envelope, passphrase);
+
+  if (!payload.tables || !Array.isArray(payload.files)) {
+    throw new BackupError('The backup file is incomplete.');
+  }
+  if (payload.schema_version > (await getSchemaVersion())) {
+    throw new BackupError('This backup was made by a newer version of DockLogBC. Update the app to restore it.');
+  }
+
+  return payload;
+}
+
+export function previewBackup(payload: BackupPayload): BackupPreview {
+  const tables: Record<string, number> = {};
+  for (const { name } of BACKUP_TABLES) {
+    tables[name] = payload.tables[name]?.length || 0;
+  }
+  return {
+    createdAt: payload.created_at,
+    schemaVersion: payload.schema_version,
+    tables,
+    fileCount: payload.files.length
+  };
+}
+
+// Restore an archive. 'replace' wipes current data first; 'merge' keeps current
+// data and adds only rows that don't already exist.
+export async function restoreBackup(payload: BackupPayload, mode: RestoreMode): Promise<RestoreResult> {
+  const result: RestoreResult = { inserted: {}, skipped: {}, filesRestored: 0 };
+
+  // Write files first - an orphan file is harmless, a row pointing at nothing is not
+  const restoredUris = new Map<string, string>();
+  for (const file of payload.files) {
+    const fileName = file.path.split('/').pop() || file.path;
+    const path = `${DOCUMENTS_DIR}/${fileName}`;
+    if (mode === 'merge' && (await fileExists(path))) {
+      const { uri } = await Filesystem.getUri({ path, directory: Directory.Data });
+      restoredUris.set(fileName, uri);
+      continue;
+    }
+    const saved = await Filesystem.writeFile({
+      path,
+      data: file.data,
+      directory: Directory.Data,
+      recursive: true
+    });
+    restoredUris.set(fileName, saved.uri);
+    result.filesRestored++;
+  }
+
+  await database.transaction(async tx => {
+    if (mode === 'replace') {
+      for (const { name } of [...BACKUP_TABLES].reverse()) {
+        await tx.run(`DELETE FROM ${name}`);
+      }
+      // Import undo logs aren't backed up - they point at entry ids the restore replaces
+      await importBatchQueries.clear(tx);
+    }
+
+    // Old rated job and document ids -> ids in the current database (ids change when merging)
+    const ratedJobIds = new Map<number, number>();
+    const documentIds = new Map<number, number>();
+
+    for (const { name, mergeKeys } of BACKUP_TABLES) {
+      const rows = payload.tables[name] || [];
+      const columns = new Set(
+        (await tx.query<{ name: string }>(`PRAGMA table_info(${name})`)).map(c => c.name)
+      );
+      result.inserted[name] = 0;
+      result.skipped[name] = 0;
+
+      for (const original of rows) {
+        const row: Row = { ...original };
+
+        if (name === 'entries' && row.rated_job_id != null) {
+          row.rated_job_id = ratedJobIds.get(Number(row.rated_job_id)) ?? row.rated_job_id;
+        }
+        if ((name === 'paystub_reviews' || name === 'pay_periods') && row.document_id != null) {
+          row.document_id = documentIds.get(Number(row.document_id)) ?? row.document_id;
+        }
+        if (name === 'documents' && typeof row.file_path === 'string') {
+          // Point at the file in this device's data directory
+          const fileName = row.file_path.split('/').pop() || '';
+          row.file_path = restoredUris.get(fileName) ?? row.file_path;
+        }
+
+        if (mode === 'merge') {
+          const existingId = await findExisting(name, mergeKeys, row);
+          if (existingId !== null) {
+            if (name === 'rated_jobs') ratedJobIds.set(Number(original.id), existingId);
+            if (name === 'documents') documentIds.set(Number(original.id), existingId);
+            result.skipped[name]++;
+            continue;
+          }
+          delete row.id;
+        }
+
+        const keys = Object.keys(row).filter(k => columns.has(k));
+        const { lastId } = await tx.run(
+          `INSERT INTO ${name} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`,
+          keys.map(k => row[k])
+        );
+        if (name === 'rated_jobs') ratedJobIds.set(Number(original.id), lastId);
+        if (name === 'documents') documentIds.set(Number(original.id), lastId);
+        result.inserted[name]++;
+      }
+    }
+  });
+
+  return result;
+}
+
+// Find a row matching on mergeKeys; single-row tables match any existing row
+async function findExisting(table: string, mergeKeys: string[] | null, row: Row): Promise<number | null> {
+  if (!mergeKeys) {
+    const existing = await database.query<{ id: number }>(`SELECT id FROM ${table} LIMIT 1`);
+    return existing[0]?.id ?? null;
+  }
+  const existing = await database.query<{ id: number }>(
+    `SELECT id FROM ${table} WHERE ${mergeKeys.map(k => `${k} IS ?`).join(' AND ')} LIMIT 1`,
+    mergeKeys.map(k => row[k] ?? null)
+  );
+  return existing[0]?.id ?? null;
+}
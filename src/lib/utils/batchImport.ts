@@ -0,0 +1,148 @@
+// Batch import - combine what was read from many files before review. Pay stub
+// pages are grouped into one stub per pay period; timesheet pages become one list
+// with entries read twice (an overlapping photo, a page uploaded again) dropped.
+
+import type { ParsedPaystubData, ParsedPaystubLineItem, ParsedTimesheetEntry } from './ai';
+import { validatePaystub, type ValidationIssue } from './aiValidation';
+import { paystubDateRange } from './paystubAudit';
+import { payPeriodsBetween, periodsCoveredBy, type PayCycle } from './payPeriods';
+
+export interface PaystubPage {
+  fileId: number;
+  data: ParsedPaystubData;
+  issues: ValidationIssue[];
+}
+
+export interface MergedPaystub {
+  fileIds: number[]; // Pages in upload order
+  start: string | null;
+  end: string | null;
+  data: ParsedPaystubData;
+  issues: ValidationIssue[]; // Checks on the combined stub, plus items a page had to skip
+}
+
+export interface TimesheetPage {
+  fileId: number;
+  entries: ParsedTimesheetEntry[];
+}
+
+export interface MergedTimesheetEntry extends ParsedTimesheetEntry {
+  fileId: number;
+}
+
+// Totals printed once per stub - the first page that has one wins
+const PAYSTUB_TOTALS = [
+  'gross_pay',
+  'net_pay',
+  'total_hours',
+  'federal_tax',
+  'provincial_tax',
+  'cpp',
+  'ei',
+  'union_dues',
+  'pension_contribution',
+  'other_deductions',
+  'hours_worked'
+] as const;
+
+interface PaystubGroup {
+  pages: PaystubPage[];
+  period: { start: string; end: string } | null; // As printed on the stub
+  weeks: Set<string>; // Start dates of the pay weeks it covers
+}
+
+function sameLineItem(a: ParsedPaystubLineItem, b: ParsedPaystubLineItem): boolean {
+  return a.date === b.date && a.type === b.type && a.rate === b.rate && a.hours === b.hours && a.amount === b.amount;
+}
+
+function combinePages(group: PaystubGroup): MergedPaystub {
+  const data: ParsedPaystubData = { line_items: [] };
+
+  for (const [index, page] of group.pages.entries()) {
+    // A line already taken from another page is the same line photographed twice
+    const earlier = data.line_items.slice();
+    for (const item of page.data.line_items) {
+      if (index > 0 && earlier.some(e => sameLineItem(e, item))) continue;
+      data.line_items.push(item);
+    }
+    for (const field of PAYSTUB_TOTALS) {
+      if (data[field] === undefined && page.data[field] !== undefined) data[field] = page.data[field];
+    }
+    const start = page.data.pay_period_start;
+    const end = page.data.pay_period_end;
+    if (start && (!data.pay_period_start || start < data.pay_period_start)) data.pay_period_start = start;
+    if (end && (!data.pay_period_end || end > data.pay_period_end)) data.pay_period_end = end;
+  }
+  data.line_items.sort((a, b) => a.date.localeCompare(b.date));
+
+  // Check the combined stub again - a gross that didn't match one page's lines may match all of them
+  const skipped = group.pages.flatMap(p => p.issues.filter(i => i.severity === 'error'));
+  const range = paystubDateRange(data);
+  return {
+    fileIds: group.pages.map(p => p.fileId),
+    start: range?.start ?? null,
+    end: range?.end ?? null,
+    data,
+    issues: [...skipped, ...(validatePaystub(data)?.issues ?? [])]
+  };
+}
+
+// Group pages into pay stubs. Pages with printed pay periods belong together when
+// the periods match; otherwise when they cover the same pay week. A page with no
+// dates at all is taken as the continuation of the page before it.
+export function mergePaystubPages(pages: PaystubPage[], cycle: PayCycle): MergedPaystub[] {
+  const groups: PaystubGroup[] = [];
+  let previous: PaystubGroup | null = null;
+
+  for (const page of pages) {
+    const range = paystubDateRange(page.data);
+    const period = page.data.pay_period_start && page.data.pay_period_end
+      ? { start: page.data.pay_period_start, end: page.data.pay_period_end }
+      : null;
+    const weeks = range
+      ? periodsCoveredBy(range.start, range.end, payPeriodsBetween(range.start, range.end, cycle)).map(p => p.start_date)
+      : [];
+
+    let group: PaystubGroup | null | undefined = range
+      ? groups.find(g =>
+          g.period && period
+            ? g.period.start === period.start && g.period.end === period.end
+            : weeks.some(week => g.weeks.has(week))
+        )
+      : previous;
+    if (!group) {
+      group = { pages: [], period: null, weeks: new Set() };
+      groups.push(group);
+    }
+
+    group.pages.push(page);
+    group.period ??= period;
+    for (const week of weeks) group.weeks.add(week);
+    previous = group;
+  }
+
+  return groups.map(combinePages);
+}
+
+function timesheetKey(entry: ParsedTimesheetEntry): string {
+  return `${entry.date}|${entry.shift_type}|${entry.hours}|${entry.job_name.trim().toLowerCase()}`;
+}
+
+// All entries in date order, each kept once
+export function mergeTimesheetPages(pages: TimesheetPage[]): MergedTimesheetEntry[] {
+  const seen = new Set<string>();
+  const merged: MergedTimesheetEntry[] = [];
+
+  for (const page of pages) {
+    // Repeats within one page are separate shifts; only repeats across pages are dropped
+    const fromEarlierPages = new Set(seen);
+    for (const entry of page.entries) {
+      const key = timesheetKey(entry);
+      if (fromEarlierPages.has(key)) continue;
+      seen.add(key);
+      merged.push({ ...entry, fileId: page.fileId });
+    }
+  }
+
+  return merged.sort((a, b) => a.date.localeCompare(b.date));
+}
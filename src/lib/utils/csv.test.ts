@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParser, parseCsv, parseCsvDate, readCsvFile } from './csv';
+
+function fields(text: string): string[][] {
+  return parseCsv(text).map(r => r.fields);
+}
+
+describe('parseCsv', () => {
+  it('splits plain records on commas and line breaks', () => {
+    expect(fields('date,hours\n2025-03-04,8\n2025-03-05,6.5')).toEqual([
+      ['date', 'hours'],
+      ['2025-03-04', '8'],
+      ['2025-03-05', '6.5']
+    ]);
+  });
+
+  it('keeps commas inside quoted fields', () => {
+    expect(fields('ship,notes\n"MSC Oscar","Berth 5, Centerm"')).toEqual([
+      ['ship', 'notes'],
+      ['MSC Oscar', 'Berth 5, Centerm']
+    ]);
+  });
+
+  it('keeps line breaks inside quoted fields and counts lines from where a record starts', () => {
+    const records = parseCsv('date,notes\n2025-03-04,"Crane down\nmoved to lashing"\n2025-03-05,ok');
+
+    expect(records.map(r => r.fields)).toEqual([
+      ['date', 'notes'],
+      ['2025-03-04', 'Crane down\nmoved to lashing'],
+      ['2025-03-05', 'ok']
+    ]);
+    expect(records.map(r => r.line)).toEqual([1, 2, 4]);
+  });
+
+  it('reads "" inside a quoted field as one quote', () => {
+    expect(fields('notes\n"Called the ""big"" hour"\n""""')).toEqual([['notes'], ['Called the "big" hour'], ['"']]);
+  });
+
+  it('handles CRLF line breaks, inside quotes too', () => {
+    expect(fields('date,notes\r\n2025-03-04,"two\r\nlines"\r\n2025-03-05,x')).toEqual([
+      ['date', 'notes'],
+      ['2025-03-04', 'two\nlines'],
+      ['2025-03-05', 'x']
+    ]);
+  });
+
+  it('drops a leading byte order mark', () => {
+    expect(fields('\uFEFFdate,hours\n2025-03-04,8')[0]).toEqual(['date', 'hours']);
+  });
+
+  it('ignores a trailing newline and blank lines', () => {
+    expect(fields('date\n2025-03-04\n\n2025-03-05\n')).toEqual([['date'], ['2025-03-04'], ['2025-03-05']]);
+    expect(fields('date\r\n2025-03-04\r\n')).toEqual([['date'], ['2025-03-04']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(fields('a,,c\n,,')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+});
+
+describe('CsvParser', () => {
+  it('gives the same records however the input is split into chunks', () => {
+    const text = '\uFEFFdate,notes\r\n2025-03-04,"Berth 5, ""A""\r\nside"\r\n2025-03-05,ok\r\n';
+    const whole = parseCsv(text);
+
+    for (let size = 1; size <= 4; size++) {
+      const parser = new CsvParser();
+      const records = [];
+      for (let i = 0; i < text.length; i += size) records.push(...parser.push(text.slice(i, i + size)));
+      records.push(...parser.end());
+      expect(records).toEqual(whole);
+    }
+  });
+});
+
+describe('readCsvFile', () => {
+  it('reads a file as a stream', async () => {
+    const file = new Blob(['\uFEFFdate,ship\n2025-03-04,"Ever Given, bay 3"\n']);
+
+    expect((await readCsvFile(file)).map(r => r.fields)).toEqual([
+      ['date', 'ship'],
+      ['2025-03-04', 'Ever Given, bay 3']
+    ]);
+  });
+});
+
+describe('parseCsvDate', () => {
+  it('reads ISO dates, with or without a time', () => {
+    expect(parseCsvDate('2025-03-04')).toBe('2025-03-04');
+    expect(parseCsvDate('2025-3-4 07:30')).toBe('2025-03-04');
+  });
+
+  it('reads an ambiguous date as month first', () => {
+    expect(parseCsvDate('03/04/2025')).toBe('2025-03-04');
+    expect(parseCsvDate('3.4.25')).toBe('2025-03-04');
+  });
+
+  it('reads day first when the first part cannot be a month', () => {
+    expect(parseCsvDate('25/03/2025')).toBe('2025-03-25');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseCsvDate('02/30/2025')).toBeNull();
+    expect(parseCsvDate('13/13/2025')).toBeNull();
+    expect(parseCsvDate('2025-02-29')).toBeNull();
+  });
+
+  it('falls back to Date.parse for written-out dates', () => {
+    expect(parseCsvDate('March 4, 2025')).toBe('2025-03-04');
+    expect(parseCsvDate('not a date')).toBeNull();
+    expect(parseCsvDate('  ')).toBeNull();
+  });
+});
@@ -0,0 +1,302 @@
+// CSV import - RFC 4180 parsing, column mapping and row validation
+// Parsing is streaming: a file is read in chunks and records are emitted as they
+// complete, so quoted fields may contain commas, quotes ("") and line breaks.
+
+import type { ShiftType } from './earnings';
+
+export interface CsvRecord {
+  line: number; // 1-based line the record starts on
+  fields: string[];
+}
+
+// Incremental parser - push() chunks as they arrive, end() once the input is done
+export class CsvParser {
+  private fields: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private afterQuote = false; // Just saw a quote that closed a quoted field (or starts "")
+  private skipLineFeed = false; // Previous char was \r, so a following \n is the same line break
+  private started = false;
+  private line = 1;
+  private recordLine = 1;
+
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (!this.started) {
+        this.started = true;
+        if (char === '\uFEFF') continue; // Byte order mark from Excel
+      }
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.inQuotes = false;
+          this.afterQuote = true;
+        } else if (char === '\n' || char === '\r') {
+          // Line breaks inside a quoted field are kept, normalized to \n
+          this.line++;
+          if (char === '\r') this.skipLineFeed = true;
+          this.field += '\n';
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (this.afterQuote) {
+        this.afterQuote = false;
+        if (char === '"') {
+          // "" inside a quoted field is a literal quote
+          this.field += '"';
+          this.inQuotes = true;
+          continue;
+        }
+      }
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+      } else if (char === ',') {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.line++;
+        if (char === '\r') this.skipLineFeed = true;
+        const record = this.endRecord();
+        if (record) records.push(record);
+      } else {
+        // Stray quotes inside an unquoted field are kept as-is rather than rejected
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  end(): CsvRecord[] {
+    this.inQuotes = false;
+    this.afterQuote = false;
+    const record = this.endRecord();
+    return record ? [record] : [];
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = '';
+  }
+
+  private endRecord(): CsvRecord | null {
+    this.endField();
+    const fields = this.fields;
+    const line = this.recordLine;
+    this.fields = [];
+    this.recordLine = this.line;
+
+    // Blank lines aren't records
+    if (fields.length === 1 && fields[0].trim() === '') return null;
+    return { line, fields };
+  }
+}
+
+export function parseCsv(text: string): CsvRecord[] {
+  const parser = new CsvParser();
+  return [...parser.push(text), ...parser.end()];
+}
+
+// Read a file chunk by chunk without loading the whole text first
+export async function readCsvFile(file: Blob): Promise<CsvRecord[]> {
+  const parser = new CsvParser();
+  const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  const records: CsvRecord[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    records.push(...parser.push(value));
+  }
+  records.push(...parser.end());
+
+  return records;
+}
+
+// --- Column mapping ---
+
+export type CsvField = 'date' | 'shift_type' | 'hours' | 'job_name' | 'earnings' | 'location' | 'ship' | 'notes';
+
+// Column index for each field; null = not in the file
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+export const CSV_FIELDS: Array<{ field: CsvField; label: string; required: boolean; aliases: string[] }> = [
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'work date', 'shift date'] },
+  { field: 'shift_type', label: 'Shift', required: false, aliases: ['shift', 'shift type'] },
+  { field: 'hours', label: 'Hours', required: false, aliases: ['hours', 'hrs', 'hour'] },
+  { field: 'job_name', label: 'Job', required: false, aliases: ['job', 'job name', 'position', 'title', 'rated job'] },
+  { field: 'earnings', label: 'Earnings', required: false, aliases: ['earnings', 'pay', 'amount', 'gross', 'earning'] },
+  { field: 'location', label: 'Location', required: false, aliases: ['location', 'terminal', 'site'] },
+  { field: 'ship', label: 'Ship', required: false, aliases: ['ship', 'vessel'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comments'] }
+];
+
+// Match headers to fields - exact names first, then headers containing an alias
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase().replace(/[_\s]+/g, ' '));
+  const mapping = Object.fromEntries(CSV_FIELDS.map(f => [f.field, null])) as CsvColumnMapping;
+  const used = new Set<number>();
+
+  for (const exact of [true, false]) {
+    for (const { field, aliases } of CSV_FIELDS) {
+      if (mapping[field] !== null) continue;
+      const index = normalized.findIndex(
+        (header, i) => !used.has(i) && aliases.some(alias => (exact ? header === alias : header.includes(alias)))
+      );
+      if (index >= 0) {
+        mapping[field] = index;
+        used.add(index);
+      }
+    }
+  }
+
+  return mapping;
+}
+
+// --- Validation ---
+
+export interface CsvEntryRow {
+  line: number;
+  date: string;
+  shift_type: ShiftType;
+  hours: number;
+  job_name: string;
+  earnings: number | null;
+  location: string | null;
+  ship: string | null;
+  notes: string | null;
+}
+
+export interface CsvRowError {
+  line: number;
+  messages: string[];
+}
+
+export interface CsvImportPreview {
+  rows: CsvEntryRow[];
+  errors: CsvRowError[];
+  totalHours: number;
+  totalEarnings: number;
+}
+
+export function normalizeShiftType(value: string): ShiftType | null {
+  const shift = value.trim().toLowerCase();
+  if (!shift) return null;
+  if (shift.includes('grave') || shift.includes('night') || shift === 'gy' || shift === 'g') return 'graveyard';
+  if (shift.includes('after') || shift.includes('pm') || shift.includes('evening') || shift === 'a') return 'afternoon';
+  if (shift.includes('day') || shift.includes('am') || shift.includes('morning') || shift === 'd') return 'day';
+  return null;
+}
+
+function toDateString(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Accepts YYYY-MM-DD, M/D/YYYY (D/M/YYYY when the first part can't be a month)
+// and anything else Date.parse understands. Returns YYYY-MM-DD in local time.
+export function parseCsvDate(value: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (iso) return toDateString(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (numeric) {
+    let [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    if (first > 12) [first, second] = [second, first];
+    return toDateString(year, first, second);
+  }
+
+  const parsed = Date.parse(text);
+  if (isNaN(parsed)) return null;
+  const date = new Date(parsed);
+  return toDateString(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+function parseNumber(value: string): number | null {
+  const cleaned = value.trim().replace(/[$,\s]/g, '');
+  if (!cleaned) return null;
+  const number = Number(cleaned);
+  return isNaN(number) ? null : number;
+}
+
+// Validate every record against the mapping. Nothing is written - the result is
+// the dry run the user confirms before importing.
+export function validateCsvRows(
+  records: CsvRecord[],
+  mapping: CsvColumnMapping,
+  defaultHours: (shiftType: ShiftType) => number
+): CsvImportPreview {
+  const rows: CsvEntryRow[] = [];
+  const errors: CsvRowError[] = [];
+
+  for (const record of records) {
+    const cell = (field: CsvField) => {
+      const index = mapping[field];
+      return index === null ? '' : (record.fields[index] ?? '').trim();
+    };
+    const messages: string[] = [];
+
+    const rawDate = cell('date');
+    const date = parseCsvDate(rawDate);
+    if (!rawDate) messages.push('Missing date');
+    else if (!date) messages.push(`Unrecognized date "${rawDate}"`);
+
+    const rawShift = cell('shift_type');
+    const shiftType = rawShift ? normalizeShiftType(rawShift) : 'day';
+    if (!shiftType) messages.push(`Unknown shift "${rawShift}"`);
+
+    const rawHours = cell('hours');
+    let hours = rawHours ? parseNumber(rawHours) : defaultHours(shiftType || 'day');
+    if (hours === null || hours <= 0 || hours > 24) {
+      messages.push(`Invalid hours "${rawHours}"`);
+      hours = 0;
+    }
+
+    const rawEarnings = cell('earnings');
+    const earnings = rawEarnings ? parseNumber(rawEarnings) : null;
+    if (rawEarnings && (earnings === null || earnings < 0)) {
+      messages.push(`Invalid earnings "${rawEarnings}"`);
+    }
+
+    if (messages.length > 0) {
+      errors.push({ line: record.line, messages });
+      continue;
+    }
+
+    rows.push({
+      line: record.line,
+      date: date!,
+      shift_type: shiftType!,
+      hours,
+      job_name: cell('job_name') || 'Imported',
+      earnings,
+      location: cell('location') || null,
+      ship: cell('ship') || null,
+      notes: cell('notes') || null
+    });
+  }
+
+  return {
+    rows,
+    errors,
+    totalHours: rows.reduce((sum, row) => sum + row.hours, 0),
+    totalEarnings: rows.reduce((sum, row) => sum + (row.earnings || 0), 0)
+  };
+}
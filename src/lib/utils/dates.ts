@@ -0,0 +1,16 @@
+// Calendar dates as YYYY-MM-DD strings, always in local time
+
+// A Date's local calendar date - toISOString() gives the UTC one, which is already tomorrow on a BC evening
+export function toDateString(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(date + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return toDateString(d);
+}
+
+export function localToday(): string {
+  return toDateString(new Date());
+}
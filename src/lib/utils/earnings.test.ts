@@ -0,0 +1,267 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry } from '$lib/db/schema';
+import {
+  calculateSavedEntryPay,
+  calculateShiftPay,
+  DEFAULT_PAY_RULES,
+  isDoubleShift,
+  planDoubleShiftChanges,
+  type PayContext,
+  type PayRules,
+  type ShiftRates
+} from './earnings';
+
+// Longshore rates and lines as printed on pay stubs: hours x rate = amount
+const RATES: ShiftRates = { day: 53.62, afternoon: 67.03, graveyard: 83.88 };
+
+const HALL = null;
+const EXTRA_HOUR_JOB = { has_extra_hour: true, is_big_hour: false, has_meal_hour: false };
+const BIG_HOUR_JOB = { has_extra_hour: false, is_big_hour: true, has_meal_hour: false };
+const MEAL_HOUR_JOB = { has_extra_hour: false, is_big_hour: false, has_meal_hour: true };
+
+function rules(overrides: Partial<PayRules> = {}): PayRules {
+  return { ...DEFAULT_PAY_RULES, ...overrides };
+}
+
+describe('calculateShiftPay', () => {
+  it('pays a hall day shift at the day rate', () => {
+    const pay = calculateShiftPay({ shift_type: 'day', job_type: 'hall', hours: 8 }, HALL, RATES);
+
+    expect(pay.base).toBe(428.96);
+    expect(pay.total).toBe(428.96);
+    expect(pay.totalHours).toBe(8);
+  });
+
+  it('pays graveyard hours at the graveyard rate', () => {
+    const pay = calculateShiftPay({ shift_type: 'graveyard', job_type: 'hall', hours: 6.5 }, HALL, RATES);
+
+    expect(pay.base).toBe(545.22);
+    expect(pay.total).toBe(545.22);
+  });
+
+  it('adds the extra hour for a rated job', () => {
+    const pay = calculateShiftPay({ shift_type: 'day', job_type: 'rated', hours: 8 }, EXTRA_HOUR_JOB, RATES);
+
+    expect(pay.extraHour).toBe(53.62);
+    expect(pay.total).toBe(482.58);
+    expect(pay.totalHours).toBe(9);
+  });
+
+  it('pays the big hour at time and a half', () => {
+    const pay = calculateShiftPay({ shift_type: 'day', job_type: 'rated', hours: 8 }, BIG_HOUR_JOB, RATES);
+
+    expect(pay.bigHour).toBe(80.43);
+    expect(pay.total).toBe(509.39);
+  });
+
+  it('adds half an hour for the meal hour', () => {
+    const pay = calculateShiftPay({ shift_type: 'afternoon', job_type: 'rated', hours: 8 }, MEAL_HOUR_JOB, RATES);
+
+    expect(pay.mealHour).toBe(33.52);
+    expect(pay.total).toBe(569.76);
+    expect(pay.totalHours).toBe(8.5);
+  });
+
+  it('ignores rated job bonuses on a hall job', () => {
+    const pay = calculateShiftPay({ shift_type: 'day', job_type: 'hall', hours: 8 }, EXTRA_HOUR_JOB, RATES);
+
+    expect(pay.extraHour).toBe(0);
+    expect(pay.total).toBe(428.96);
+  });
+
+  it('pays a Saturday premium on top of base pay', () => {
+    const pay = calculateShiftPay(
+      { shift_type: 'day', job_type: 'hall', hours: 8, date: '2026-03-07' },
+      HALL,
+      RATES,
+      rules({ saturdayMultiplier: 1.5 })
+    );
+
+    expect(pay.premiums).toBe(214.48);
+    expect(pay.total).toBe(643.44);
+  });
+
+  it('applies only the highest of several premiums', () => {
+    const pay = calculateShiftPay(
+      { shift_type: 'day', job_type: 'hall', hours: 8, date: '2026-03-07', isStatHoliday: true },
+      HALL,
+      RATES,
+      rules({ saturdayMultiplier: 1.5, statHolidayMultiplier: 2 })
+    );
+
+    expect(pay.items.filter(i => i.kind === 'premium')).toHaveLength(1);
+    expect(pay.premiums).toBe(428.96);
+    expect(pay.total).toBe(857.92);
+  });
+
+  it('pays the second shift of a double at time and a half', () => {
+    const doubled = isDoubleShift('afternoon', ['day']);
+    const pay = calculateShiftPay(
+      { shift_type: 'afternoon', job_type: 'hall', hours: 8, isDoubleShift: doubled },
+      HALL,
+      RATES,
+      rules({ doubleShiftMultiplier: 1.5 })
+    );
+
+    expect(doubled).toBe(true);
+    expect(pay.base).toBe(536.24);
+    expect(pay.premiums).toBe(268.12);
+    expect(pay.total).toBe(804.36);
+  });
+
+  it('pays no double shift premium until the rule is set', () => {
+    const pay = calculateShiftPay({ shift_type: 'afternoon', job_type: 'hall', hours: 8, isDoubleShift: true }, HALL, RATES);
+
+    expect(pay.premiums).toBe(0);
+    expect(pay.total).toBe(536.24);
+  });
+
+  it('treats two entries on the same shift as a split shift, not a double', () => {
+    expect(isDoubleShift('day', ['day'])).toBe(false);
+    expect(isDoubleShift('day', ['afternoon'])).toBe(false);
+  });
+
+  it('pays overtime past the threshold', () => {
+    const pay = calculateShiftPay(
+      { shift_type: 'day', job_type: 'hall', hours: 10 },
+      HALL,
+      RATES,
+      rules({ overtimeAfterHours: 8, overtimeMultiplier: 2 })
+    );
+
+    expect(pay.base).toBe(536.2);
+    expect(pay.overtime).toBe(107.24);
+    expect(pay.total).toBe(643.44);
+  });
+
+  it('tops a short shift up to the minimum call', () => {
+    const pay = calculateShiftPay(
+      { shift_type: 'day', job_type: 'hall', hours: 2 },
+      HALL,
+      RATES,
+      rules({ minimumCallHours: 4 })
+    );
+
+    expect(pay.minimumCall).toBe(107.24);
+    expect(pay.total).toBe(214.48);
+    expect(pay.workedHours).toBe(2);
+  });
+
+  it('counts rated job bonus hours towards the minimum call', () => {
+    const pay = calculateShiftPay(
+      { shift_type: 'day', job_type: 'rated', hours: 3 },
+      EXTRA_HOUR_JOB,
+      RATES,
+      rules({ minimumCallHours: 4 })
+    );
+
+    expect(pay.minimumCall).toBe(0);
+    expect(pay.total).toBe(214.48);
+  });
+
+  it('adds a shift differential for every hour worked', () => {
+    const pay = calculateShiftPay(
+      { shift_type: 'graveyard', job_type: 'hall', hours: 6.5 },
+      HALL,
+      RATES,
+      rules({ differentials: { day: 0, afternoon: 0, graveyard: 2 } })
+    );
+
+    expect(pay.differential).toBe(13);
+    expect(pay.total).toBe(558.22);
+  });
+
+  it('adds up to the sum of its line items', () => {
+    const pay = calculateShiftPay(
+      { shift_type: 'afternoon', job_type: 'rated', hours: 8, date: '2026-03-08', isDoubleShift: true },
+      { has_extra_hour: true, is_big_hour: true, has_meal_hour: true },
+      RATES,
+      rules({ sundayMultiplier: 2 })
+    );
+
+    const itemTotal = pay.items.reduce((sum, i) => sum + i.amount, 0);
+    expect(pay.total).toBeCloseTo(itemTotal, 2);
+    expect(pay.totalHours).toBe(10.5);
+  });
+});
+
+const context: PayContext = {
+  ratedJobs: [{ id: 1, ...EXTRA_HOUR_JOB }],
+  ratesFor: () => RATES,
+  isStatHoliday: () => false,
+  rules: rules({ doubleShiftMultiplier: 1.5 })
+};
+
+function entry(overrides: Partial<Entry>): Entry {
+  return {
+    id: 1,
+    date: '2026-03-04',
+    shift_type: 'day',
+    job_type: 'rated',
+    rated_job_id: 1,
+    hall_job_name: null,
+    hours: 9,
+    location: null,
+    ship: null,
+    notes: null,
+    earnings: null,
+    earnings_source: 'calculated',
+    bonus_hours: 1,
+    created_at: '2026-03-04 16:30:00',
+    ...overrides
+  };
+}
+
+describe('calculateSavedEntryPay', () => {
+  it('prices a saved entry from hours worked, not the stored bonus hours', () => {
+    const pay = calculateSavedEntryPay(entry({}), context);
+
+    expect(pay.workedHours).toBe(8);
+    expect(pay.total).toBe(482.58);
+  });
+
+  it('finds a double shift from the other entries that day', () => {
+    const day = entry({ id: 1 });
+    const afternoon = entry({ id: 2, shift_type: 'afternoon', job_type: 'hall', rated_job_id: null, hours: 8, bonus_hours: 0 });
+
+    expect(calculateSavedEntryPay(afternoon, context, [day, afternoon]).total).toBe(804.36);
+    expect(calculateSavedEntryPay(day, context, [day, afternoon]).premiums).toBe(0);
+  });
+});
+
+describe('planDoubleShiftChanges', () => {
+  // Stored pay that no longer matches today's rates, to show it is only adjusted
+  const afternoon = entry({ id: 2, shift_type: 'afternoon', job_type: 'hall', rated_job_id: null, hours: 8, bonus_hours: 0, earnings: 500 });
+  const day = entry({ id: 3, earnings: 482.58 });
+
+  it('adds the premium to a shift that became the second of a double', () => {
+    const changes = planDoubleShiftChanges([afternoon], [afternoon, day], context);
+
+    expect(changes).toEqual([{ entry: afternoon, hours: 8, bonusHours: 0, earnings: 768.12 }]);
+  });
+
+  it('takes the premium off when the first shift is removed', () => {
+    const doubled = { ...afternoon, earnings: 768.12 };
+    const changes = planDoubleShiftChanges([doubled, day], [doubled], context);
+
+    expect(changes.map(c => c.earnings)).toEqual([500]);
+  });
+
+  it('leaves shifts whose double shift status did not change', () => {
+    const graveyard = entry({ id: 4, shift_type: 'graveyard', job_type: 'hall', rated_job_id: null, hours: 6.5, bonus_hours: 0, earnings: 900 });
+
+    expect(planDoubleShiftChanges([day, afternoon], [day, afternoon, graveyard], context, [4])).toEqual([]);
+  });
+
+  it('never touches manual, pay stub or imported earnings', () => {
+    const manual = { ...afternoon, earnings_source: 'manual' as const };
+
+    expect(planDoubleShiftChanges([manual], [manual, day], context)).toEqual([]);
+  });
+
+  it('changes nothing while the double shift rule is off', () => {
+    const off = { ...context, rules: DEFAULT_PAY_RULES };
+
+    expect(planDoubleShiftChanges([afternoon], [afternoon, day], off)).toEqual([]);
+  });
+});
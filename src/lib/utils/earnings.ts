@@ -0,0 +1,509 @@
+// Shift pay calculations - the single source of truth for entry earnings
+// Kept free of database/Capacitor imports so it can run anywhere, including the unit tests.
+
+import type { Entry, PayRate, RatedJob, User } from '$lib/db/schema';
+import { SHIFTS } from '$lib/constants/shifts';
+
+export type ShiftType = 'day' | 'afternoon' | 'graveyard';
+
+// Hourly rate for each shift
+export type ShiftRates = Record<ShiftType, number>;
+
+// Shifts in the order they're worked through a day
+export const SHIFT_ORDER: ShiftType[] = ['day', 'afternoon', 'graveyard'];
+
+export interface ShiftSettings {
+  start: string;
+  end: string;
+  defaultHours: number;
+}
+
+// Stat holiday pay for a number of days counted in the qualifying window
+export interface StatPayTier {
+  minDays: number;
+  hours: number; // Paid at the day rate in effect on the holiday
+}
+
+// Stat holiday qualification, see utils/statQualification.ts
+export interface StatQualificationRules {
+  minDays: number; // Days in the qualifying window needed to qualify
+  countSick: boolean; // Sick days in time off count towards minDays
+  countVacation: boolean;
+  tiers: StatPayTier[]; // Highest tier reached sets the pay; one below minDays pays a partly qualified holiday
+}
+
+// Collective agreement pay rules, stored per profile (user.pay_rules).
+// Multipliers of 1 and hours of 0 switch a rule off.
+export interface PayRules {
+  shifts: Record<ShiftType, ShiftSettings>;
+  differentials: ShiftRates; // Extra dollars per hour worked on each shift
+  extraHourHours: number; // Paid hours added by has_extra_hour
+  bigHourHours: number; // Hours added by is_big_hour...
+  bigHourMultiplier: number; // ...paid at this multiple of the base rate
+  mealHourHours: number; // Paid hours added by has_meal_hour
+  saturdayMultiplier: number;
+  sundayMultiplier: number;
+  statHolidayMultiplier: number; // Work on a stat holiday date
+  doubleShiftMultiplier: number; // Hours worked on a second shift the same day
+  overtimeAfterHours: number; // Hours in one shift before overtime starts; 0 = no overtime
+  overtimeMultiplier: number;
+  minimumCallHours: number; // Paid hours guaranteed per shift called
+  payWeekStartDay: number; // Weekday the employer's pay week starts on, 0 = Sunday
+  payDayOffset: number; // Days after the pay week ends that the deposit lands
+  statQualification: StatQualificationRules;
+}
+
+export const DEFAULT_PAY_RULES: PayRules = {
+  shifts: {
+    day: { start: SHIFTS.day.start, end: SHIFTS.day.end, defaultHours: SHIFTS.day.defaultHours },
+    afternoon: { start: SHIFTS.afternoon.start, end: SHIFTS.afternoon.end, defaultHours: SHIFTS.afternoon.defaultHours },
+    graveyard: { start: SHIFTS.graveyard.start, end: SHIFTS.graveyard.end, defaultHours: SHIFTS.graveyard.defaultHours }
+  },
+  differentials: { day: 0, afternoon: 0, graveyard: 0 },
+  extraHourHours: 1,
+  bigHourHours: 1,
+  bigHourMultiplier: 1.5,
+  mealHourHours: 0.5,
+  saturdayMultiplier: 1,
+  sundayMultiplier: 1,
+  statHolidayMultiplier: 1,
+  doubleShiftMultiplier: 1,
+  overtimeAfterHours: 0,
+  overtimeMultiplier: 2,
+  minimumCallHours: 0,
+  payWeekStartDay: 0,
+  payDayOffset: 5,
+  statQualification: {
+    minDays: 15,
+    countSick: false,
+    countVacation: false,
+    tiers: [{ minDays: 15, hours: 8 }]
+  }
+};
+
+// Read stored rules, filling anything missing or invalid from the defaults
+export function parsePayRules(json: string | null): PayRules {
+  let stored: Record<string, unknown> = {};
+  try {
+    stored = json ? JSON.parse(json) : {};
+  } catch {
+    console.error('Invalid pay rules, using defaults');
+  }
+
+  const num = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+  const storedShifts = (stored.shifts || {}) as Partial<Record<ShiftType, Partial<ShiftSettings>>>;
+  const storedDiffs = (stored.differentials || {}) as Partial<ShiftRates>;
+
+  const rules = { ...DEFAULT_PAY_RULES, shifts: { ...DEFAULT_PAY_RULES.shifts }, differentials: { ...DEFAULT_PAY_RULES.differentials } };
+  for (const shift of SHIFT_ORDER) {
+    const defaults = DEFAULT_PAY_RULES.shifts[shift];
+    rules.shifts[shift] = {
+      start: typeof storedShifts[shift]?.start === 'string' ? storedShifts[shift]!.start! : defaults.start,
+      end: typeof storedShifts[shift]?.end === 'string' ? storedShifts[shift]!.end! : defaults.end,
+      defaultHours: num(storedShifts[shift]?.defaultHours, defaults.defaultHours)
+    };
+    rules.differentials[shift] = num(storedDiffs[shift], 0);
+  }
+  for (const key of Object.keys(DEFAULT_PAY_RULES) as Array<keyof PayRules>) {
+    if (key === 'shifts' || key === 'differentials' || key === 'statQualification') continue;
+    rules[key] = num(stored[key], DEFAULT_PAY_RULES[key]);
+  }
+  rules.payWeekStartDay = Math.floor(rules.payWeekStartDay) % 7;
+
+  const storedStat = (stored.statQualification || {}) as Partial<StatQualificationRules>;
+  const statDefaults = DEFAULT_PAY_RULES.statQualification;
+  const tiers = Array.isArray(storedStat.tiers)
+    ? storedStat.tiers
+        .map(tier => ({ minDays: num(tier?.minDays, -1), hours: num(tier?.hours, -1) }))
+        .filter(tier => tier.minDays >= 0 && tier.hours >= 0)
+        .sort((a, b) => a.minDays - b.minDays)
+    : statDefaults.tiers.map(tier => ({ ...tier }));
+  rules.statQualification = {
+    minDays: Math.floor(num(storedStat.minDays, statDefaults.minDays)),
+    countSick: typeof storedStat.countSick === 'boolean' ? storedStat.countSick : statDefaults.countSick,
+    countVacation: typeof storedStat.countVacation === 'boolean' ? storedStat.countVacation : statDefaults.countVacation,
+    tiers
+  };
+  return rules;
+}
+
+export type PayItemKind =
+  | 'base'
+  | 'extra_hour'
+  | 'big_hour'
+  | 'meal_hour'
+  | 'premium'
+  | 'overtime'
+  | 'differential'
+  | 'minimum_call';
+
+export interface PayLineItem {
+  kind: PayItemKind;
+  label: string;
+  hours: number;
+  rate: number;
+  amount: number;
+}
+
+export interface ShiftPayBreakdown {
+  rate: number; // Base hourly rate for the shift
+  workedHours: number; // Hours actually worked (before rated job bonus hours)
+  totalHours: number; // Hours credited, including bonus hours - what entries.hours stores
+  items: PayLineItem[];
+  base: number;
+  extraHour: number;
+  bigHour: number;
+  mealHour: number;
+  premiums: number; // Weekend, stat holiday and double shift premiums
+  overtime: number;
+  differential: number;
+  minimumCall: number;
+  total: number;
+}
+
+// The parts of an entry that affect pay. `hours` is hours worked, without bonus hours.
+// date drives weekend premiums; isStatHoliday and isDoubleShift are worked out by the caller
+// (see isDoubleShift) since they depend on other data.
+export type ShiftPayInput = Pick<Entry, 'shift_type' | 'job_type' | 'hours'> & {
+  date?: string;
+  isStatHoliday?: boolean;
+  isDoubleShift?: boolean;
+};
+
+// Everything outside an entry that its pay depends on
+export interface PayContext {
+  ratedJobs: Pick<RatedJob, 'id' | 'has_extra_hour' | 'is_big_hour' | 'has_meal_hour'>[];
+  ratesFor: (date: string) => ShiftRates;
+  isStatHoliday: (date: string) => boolean;
+  rules: PayRules;
+}
+
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Build the rate table from the user's profile
+export function ratesFromUser(user: Pick<User, 'day_rate' | 'afternoon_rate' | 'graveyard_rate'> | null): ShiftRates {
+  return {
+    day: user?.day_rate || 0,
+    afternoon: user?.afternoon_rate || 0,
+    graveyard: user?.graveyard_rate || 0
+  };
+}
+
+// Rate in effect for a shift on a date: the latest change on or before that date.
+// Shifts older than the whole history use the earliest known rate.
+export function resolveRate(
+  history: Pick<PayRate, 'shift_type' | 'rate' | 'effective_from'>[],
+  shiftType: ShiftType,
+  date: string
+): number | null {
+  const forShift = history
+    .filter(r => r.shift_type === shiftType)
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  if (forShift.length === 0) return null;
+
+  let current = forShift[0];
+  for (const change of forShift) {
+    if (change.effective_from > date) break;
+    current = change;
+  }
+  return current.rate;
+}
+
+// Rate table for a date, falling back to the given rates for shifts with no history
+export function ratesForDate(
+  history: Pick<PayRate, 'shift_type' | 'rate' | 'effective_from'>[],
+  date: string,
+  fallback: ShiftRates = { day: 0, afternoon: 0, graveyard: 0 }
+): ShiftRates {
+  return {
+    day: resolveRate(history, 'day', date) ?? fallback.day,
+    afternoon: resolveRate(history, 'afternoon', date) ?? fallback.afternoon,
+    graveyard: resolveRate(history, 'graveyard', date) ?? fallback.graveyard
+  };
+}
+
+// A shift is a double when the same day already has an earlier shift worked.
+// Several entries on the same shift are a split shift (moved between jobs), not a double.
+export function isDoubleShift(shiftType: ShiftType, sameDayShiftTypes: ShiftType[]): boolean {
+  const position = SHIFT_ORDER.indexOf(shiftType);
+  return sameDayShiftTypes.some(other => SHIFT_ORDER.indexOf(other) < position);
+}
+
+// Bonus hours a rated job adds on top of hours worked
+export function getBonusHours(
+  ratedJob: Pick<RatedJob, 'has_extra_hour' | 'is_big_hour' | 'has_meal_hour'> | null,
+  rules: PayRules = DEFAULT_PAY_RULES
+): number {
+  if (!ratedJob) return 0;
+  return (
+    (ratedJob.has_extra_hour ? rules.extraHourHours : 0) +
+    (ratedJob.is_big_hour ? rules.bigHourHours : 0) +
+    (ratedJob.has_meal_hour ? rules.mealHourHours : 0)
+  );
+}
+
+// Recover hours worked from a saved entry, whose hours include bonus hours
+export function getWorkedHours(entry: Pick<Entry, 'hours' | 'bonus_hours'>): number {
+  return Math.max(entry.hours - (entry.bonus_hours || 0), 0);
+}
+
+function lineItem(kind: PayItemKind, label: string, hours: number, rate: number): PayLineItem {
+  return { kind, label, hours, rate, amount: roundCents(hours * rate) };
+}
+
+// The day premium for a shift, if any. Premiums don't stack - the highest applies.
+function getDayPremium(entry: ShiftPayInput, rules: PayRules): { label: string; multiplier: number } | null {
+  const candidates: Array<{ label: string; multiplier: number }> = [];
+  if (entry.isStatHoliday) candidates.push({ label: 'Stat holiday', multiplier: rules.statHolidayMultiplier });
+  if (entry.date) {
+    const weekday = new Date(`${entry.date.split('T')[0]}T00:00:00`).getDay();
+    if (weekday === 6) candidates.push({ label: 'Saturday', multiplier: rules.saturdayMultiplier });
+    if (weekday === 0) candidates.push({ label: 'Sunday', multiplier: rules.sundayMultiplier });
+  }
+  if (entry.isDoubleShift) candidates.push({ label: 'Double shift', multiplier: rules.doubleShiftMultiplier });
+
+  const best = candidates.sort((a, b) => b.multiplier - a.multiplier)[0];
+  return best && best.multiplier > 1 ? best : null;
+}
+
+// Itemized pay for one shift
+export function calculateShiftPay(
+  entry: ShiftPayInput,
+  ratedJob: Pick<RatedJob, 'has_extra_hour' | 'is_big_hour' | 'has_meal_hour'> | null,
+  rates: ShiftRates,
+  rules: PayRules = DEFAULT_PAY_RULES
+): ShiftPayBreakdown {
+  const rate = rates[entry.shift_type] || 0;
+  const job = entry.job_type === 'rated' ? ratedJob : null;
+  const items: PayLineItem[] = [];
+
+  const overtimeHours = rules.overtimeAfterHours > 0 ? Math.max(entry.hours - rules.overtimeAfterHours, 0) : 0;
+  const straightHours = entry.hours - overtimeHours;
+  const premium = getDayPremium(entry, rules);
+
+  items.push(lineItem('base', 'Base hours', entry.hours, rate));
+
+  // Premiums are paid on top of base pay, so each item is the extra (multiplier - 1)
+  if (premium && straightHours > 0) {
+    items.push(lineItem('premium', `${premium.label} (${premium.multiplier}x)`, straightHours, rate * (premium.multiplier - 1)));
+  }
+  if (overtimeHours > 0) {
+    const multiplier = Math.max(rules.overtimeMultiplier, premium?.multiplier ?? 1);
+    items.push(lineItem('overtime', `Overtime after ${rules.overtimeAfterHours}h (${multiplier}x)`, overtimeHours, rate * (multiplier - 1)));
+  }
+
+  if (job?.has_extra_hour) {
+    items.push(lineItem('extra_hour', 'Extra hour', rules.extraHourHours, rate));
+  }
+  if (job?.is_big_hour) {
+    items.push(lineItem('big_hour', `Big hour (${rules.bigHourMultiplier}x)`, rules.bigHourHours, rate * rules.bigHourMultiplier));
+  }
+  if (job?.has_meal_hour) {
+    items.push(lineItem('meal_hour', 'Meal hour', rules.mealHourHours, rate));
+  }
+
+  const differential = rules.differentials[entry.shift_type] || 0;
+  if (differential > 0 && entry.hours > 0) {
+    items.push(lineItem('differential', 'Shift differential', entry.hours, differential));
+  }
+
+  // Minimum call tops up pay, not hours worked
+  const bonusHours = getBonusHours(job, rules);
+  const paidHours = entry.hours + bonusHours;
+  if (rules.minimumCallHours > 0 && entry.hours > 0 && paidHours < rules.minimumCallHours) {
+    items.push(lineItem('minimum_call', `Minimum call (${rules.minimumCallHours}h)`, rules.minimumCallHours - paidHours, rate));
+  }
+
+  const sumOf = (kind: PayItemKind) =>
+    roundCents(items.filter(i => i.kind === kind).reduce((sum, i) => sum + i.amount, 0));
+
+  return {
+    rate,
+    workedHours: entry.hours,
+    totalHours: paidHours,
+    items,
+    base: sumOf('base'),
+    extraHour: sumOf('extra_hour'),
+    bigHour: sumOf('big_hour'),
+    mealHour: sumOf('meal_hour'),
+    premiums: sumOf('premium'),
+    overtime: sumOf('overtime'),
+    differential: sumOf('differential'),
+    minimumCall: sumOf('minimum_call'),
+    total: roundCents(items.reduce((sum, i) => sum + i.amount, 0))
+  };
+}
+
+// One entry whose hours or earnings would change
+export interface EarningsChange {
+  entry: Entry;
+  hours: number;
+  bonusHours: number;
+  earnings: number;
+}
+
+export interface RecalculationPlan {
+  changes: EarningsChange[];
+  protectedCount: number; // Manual, paystub or imported earnings - never touched
+  unchangedCount: number;
+  beforeTotal: number; // Earnings of every matched entry, before and after
+  afterTotal: number;
+}
+
+// Whether a saved entry is the second shift of a double among the entries given
+function isSavedDoubleShift(entry: Entry, sameDayEntries: Entry[]): boolean {
+  const otherShifts = sameDayEntries
+    .filter(e => e.date === entry.date && e.id !== entry.id)
+    .map(e => e.shift_type);
+  return isDoubleShift(entry.shift_type, otherShifts);
+}
+
+function priceSavedEntry(entry: Entry, context: PayContext, doubleShift: boolean): ShiftPayBreakdown {
+  const ratedJob = context.ratedJobs.find(j => j.id === entry.rated_job_id) || null;
+  return calculateShiftPay(
+    {
+      shift_type: entry.shift_type,
+      job_type: entry.job_type,
+      hours: getWorkedHours(entry),
+      date: entry.date,
+      isStatHoliday: context.isStatHoliday(entry.date),
+      isDoubleShift: doubleShift
+    },
+    ratedJob,
+    context.ratesFor(entry.date),
+    context.rules
+  );
+}
+
+// What a saved entry should pay under the current rates and rules.
+// sameDayEntries decides whether it was a double shift.
+export function calculateSavedEntryPay(
+  entry: Entry,
+  context: PayContext,
+  sameDayEntries: Entry[] = [entry]
+): ShiftPayBreakdown {
+  return priceSavedEntry(entry, context, isSavedDoubleShift(entry, sameDayEntries));
+}
+
+// Pay corrections after shifts were added, moved or removed on some days. Only calculated
+// entries that became (or stopped being) the second shift of a double change, and only by
+// what the double shift premium adds or takes away - everything else about their pay is
+// left for an explicit recalculation. before holds the days as their pay was worked out:
+// entries missing from it were priced as single shifts, and skip lists entries the caller
+// already priced for the days as they are now.
+export function planDoubleShiftChanges(
+  before: Entry[],
+  after: Entry[],
+  context: PayContext,
+  skip: number[] = []
+): EarningsChange[] {
+  const previous = new Map(before.map(e => [e.id, e]));
+  const changes: EarningsChange[] = [];
+
+  for (const entry of after) {
+    if (entry.earnings_source !== 'calculated' || entry.earnings === null || skip.includes(entry.id)) continue;
+
+    const old = previous.get(entry.id);
+    const wasDouble = old ? isSavedDoubleShift(old, before) : false;
+    const nowDouble = isSavedDoubleShift(entry, after);
+    if (wasDouble === nowDouble) continue;
+
+    // Priced with the rates in effect on the entry's date
+    const difference = priceSavedEntry(entry, context, nowDouble).total - priceSavedEntry(entry, context, wasDouble).total;
+    if (roundCents(difference) === 0) continue;
+    changes.push({
+      entry,
+      hours: entry.hours,
+      bonusHours: entry.bonus_hours,
+      earnings: roundCents(entry.earnings + difference)
+    });
+  }
+
+  return changes;
+}
+
+// What an entry is expected to pay: manual earnings are what the user knows they're
+// owed, everything else is priced fresh so imported pay stub amounts can't hide a mistake
+export function expectedEntryPay(entry: Entry, context: PayContext, sameDayEntries: Entry[] = [entry]): number {
+  if (entry.earnings_source === 'manual' && entry.earnings !== null) return entry.earnings;
+  return calculateSavedEntryPay(entry, context, sameDayEntries).total;
+}
+
+// Work out what recalculating a set of entries would change, without changing anything.
+// sameDayEntries must include every entry on the matched dates so double shifts are found.
+export function planRecalculation(
+  entries: Entry[],
+  context: PayContext,
+  sameDayEntries: Entry[] = entries
+): RecalculationPlan {
+  const plan: RecalculationPlan = { changes: [], protectedCount: 0, unchangedCount: 0, beforeTotal: 0, afterTotal: 0 };
+
+  for (const entry of entries) {
+    const before = entry.earnings || 0;
+    plan.beforeTotal += before;
+
+    if (entry.earnings_source !== 'calculated') {
+      plan.protectedCount++;
+      plan.afterTotal += before;
+      continue;
+    }
+
+    const pay = calculateSavedEntryPay(entry, context, sameDayEntries);
+    plan.afterTotal += pay.total;
+
+    if (pay.total === roundCents(before) && pay.totalHours === entry.hours) {
+      plan.unchangedCount++;
+      continue;
+    }
+    plan.changes.push({
+      entry,
+      hours: pay.totalHours,
+      bonusHours: pay.totalHours - pay.workedHours,
+      earnings: pay.total
+    });
+  }
+
+  plan.beforeTotal = roundCents(plan.beforeTotal);
+  plan.afterTotal = roundCents(plan.afterTotal);
+  return plan;
+}
+
+// Everything worked on one date - days worked counts these, not entries
+export interface DayRollup {
+  date: string;
+  entries: Entry[];
+  shiftTypes: ShiftType[]; // Distinct shifts worked, in day order
+  hours: number;
+  earnings: number;
+}
+
+export function rollupByDay(entries: Entry[]): DayRollup[] {
+  const byDate = new Map<string, Entry[]>();
+  for (const entry of entries) {
+    const date = entry.date.split('T')[0];
+    byDate.set(date, [...(byDate.get(date) || []), entry]);
+  }
+
+  return [...byDate.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, dayEntries]) => {
+      const sorted = [...dayEntries].sort(
+        (a, b) => SHIFT_ORDER.indexOf(a.shift_type) - SHIFT_ORDER.indexOf(b.shift_type)
+      );
+      return {
+        date,
+        entries: sorted,
+        shiftTypes: SHIFT_ORDER.filter(shift => sorted.some(e => e.shift_type === shift)),
+        hours: sorted.reduce((sum, e) => sum + e.hours, 0),
+        earnings: roundCents(sorted.reduce((sum, e) => sum + (e.earnings || 0), 0))
+      };
+    });
+}
+
+// Days worked = distinct dates with at least one entry
+export function countDaysWorked(entries: Pick<Entry, 'date'>[]): number {
+  return new Set(entries.map(e => e.date.split('T')[0])).size;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { sheetToCsv } from './export';
+import type { XlsxSheet } from './xlsx';
+
+function sheet(rows: XlsxSheet['rows'], totals: XlsxSheet['totals'] = null): XlsxSheet {
+  return {
+    name: 'Entries',
+    columns: [
+      { label: 'Date', type: 'date' },
+      { label: 'Notes', type: 'text' },
+      { label: 'Earnings', type: 'currency' }
+    ],
+    rows,
+    totals
+  };
+}
+
+describe('sheetToCsv', () => {
+  it('writes a header, rows and totals with CRLF line endings', () => {
+    const csv = sheetToCsv(sheet([['2025-03-04', 'Crane', 482.58], ['2025-03-05', null, 545.2]], ['Total (2)', null, 1027.78]));
+
+    expect(csv).toBe('Date,Notes,Earnings\r\n2025-03-04,Crane,482.58\r\n2025-03-05,,545.20\r\nTotal (2),,1027.78\r\n');
+  });
+
+  it('quotes cells with commas, quotes, line breaks or edge spaces', () => {
+    const csv = sheetToCsv(sheet([['2025-03-04', 'Berth 5, "A" side\nlate start', 0], ['2025-03-05', ' padded', 0]]));
+
+    expect(csv.split('\r\n').slice(1, 3)).toEqual([
+      '2025-03-04,"Berth 5, ""A"" side\nlate start",0.00',
+      '2025-03-05," padded",0.00'
+    ]);
+  });
+
+  it('keeps text that starts like a formula from running as one', () => {
+    const csv = sheetToCsv(sheet([
+      ['2025-03-04', '=HYPERLINK("http://example.com","Ship")', 0],
+      ['2025-03-04', '+1 hour', 0],
+      ['2025-03-04', '-cancelled', 0],
+      ['2025-03-04', '@SUM(A1)', 0]
+    ]));
+
+    expect(csv.split('\r\n').slice(1, 5)).toEqual([
+      `2025-03-04,"'=HYPERLINK(""http://example.com"",""Ship"")",0.00`,
+      "2025-03-04,'+1 hour,0.00",
+      "2025-03-04,'-cancelled,0.00",
+      "2025-03-04,'@SUM(A1),0.00"
+    ]);
+  });
+
+  it('leaves negative amounts as numbers', () => {
+    const csv = sheetToCsv(sheet([['2025-03-04', 'Adjustment', -53.62]]));
+
+    expect(csv.split('\r\n')[1]).toBe('2025-03-04,Adjustment,-53.62');
+  });
+});
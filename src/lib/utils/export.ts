@@ -0,0 +1,260 @@
+// Data export - entries, time off and pay stub line items as CSV or XLSX
+// Tables are built once from column definitions, then written in either format.
+
+import { database, entryQueries, SHIFTS } from '$lib/db';
+import type { Entry, TimeOff, RatedJob, Document } from '$lib/db';
+import { TIME_OFF_TYPES } from '$lib/constants/timeOff';
+import { localToday } from './dates';
+import { getPaystubData } from './paystubAudit';
+import { shareOrDownloadFile, bytesToBase64 } from './files';
+import { buildXlsx, type XlsxCell, type XlsxCellType, type XlsxSheet } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportDataset = 'entries' | 'time_off' | 'paystub_items';
+
+// One dated line from a saved pay stub's extracted data
+export interface PaystubItemRow {
+  date: string | null;
+  type: string;
+  rate: number | null;
+  hours: number | null;
+  amount: number | null;
+  pay_period_start: string | null;
+  pay_period_end: string | null;
+  document: string;
+}
+
+interface ExportRowTypes {
+  entries: Entry;
+  time_off: TimeOff;
+  paystub_items: PaystubItemRow;
+}
+
+interface ExportContext {
+  ratedJobs: RatedJob[];
+}
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  type: XlsxCellType;
+  value: (row: T, context: ExportContext) => XlsxCell;
+  total?: boolean; // Summed in the totals row
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function weekday(date: string): string {
+  return WEEKDAYS[new Date(date + 'T00:00:00').getDay()] || '';
+}
+
+function entryJobName(entry: Entry, context: ExportContext): string {
+  if (entry.job_type === 'rated') {
+    return context.ratedJobs.find(j => j.id === entry.rated_job_id)?.name || 'Rated Job';
+  }
+  return entry.hall_job_name || 'Hall Job';
+}
+
+export const EXPORT_DATASETS: { [K in ExportDataset]: { label: string; columns: ExportColumn<ExportRowTypes[K]>[] } } = {
+  entries: {
+    label: 'Work Entries',
+    columns: [
+      { key: 'date', label: 'Date', type: 'date', value: e => e.date },
+      { key: 'weekday', label: 'Day', type: 'text', value: e => weekday(e.date) },
+      { key: 'shift_type', label: 'Shift', type: 'text', value: e => SHIFTS[e.shift_type]?.name || e.shift_type },
+      { key: 'job', label: 'Job', type: 'text', value: entryJobName },
+      { key: 'job_type', label: 'Job Type', type: 'text', value: e => (e.job_type === 'rated' ? 'Rated' : 'Hall') },
+      { key: 'hours', label: 'Hours', type: 'number', value: e => e.hours, total: true },
+      { key: 'bonus_hours', label: 'Bonus Hours', type: 'number', value: e => e.bonus_hours, total: true },
+      { key: 'earnings', label: 'Earnings', type: 'currency', value: e => e.earnings, total: true },
+      { key: 'earnings_source', label: 'Earnings Source', type: 'text', value: e => e.earnings_source },
+      { key: 'location', label: 'Location', type: 'text', value: e => e.location },
+      { key: 'ship', label: 'Ship', type: 'text', value: e => e.ship },
+      { key: 'notes', label: 'Notes', type: 'text', value: e => e.notes }
+    ]
+  },
+  time_off: {
+    label: 'Time Off',
+    columns: [
+      { key: 'date', label: 'Date', type: 'date', value: t => t.date },
+      { key: 'weekday', label: 'Day', type: 'text', value: t => weekday(t.date) },
+      { key: 'type', label: 'Type', type: 'text', value: t => TIME_OFF_TYPES[t.type]?.name ?? t.type },
+      { key: 'amount', label: 'Days', type: 'number', value: t => t.amount, total: true },
+      { key: 'notes', label: 'Notes', type: 'text', value: t => t.notes }
+    ]
+  },
+  paystub_items: {
+    label: 'Pay Stub Lines',
+    columns: [
+      { key: 'date', label: 'Date', type: 'date', value: p => p.date },
+      { key: 'type', label: 'Type', type: 'text', value: p => p.type },
+      { key: 'rate', label: 'Rate', type: 'currency', value: p => p.rate },
+      { key: 'hours', label: 'Hours', type: 'number', value: p => p.hours, total: true },
+      { key: 'amount', label: 'Amount', type: 'currency', value: p => p.amount, total: true },
+      { key: 'pay_period_start', label: 'Period Start', type: 'date', value: p => p.pay_period_start },
+      { key: 'pay_period_end', label: 'Period End', type: 'date', value: p => p.pay_period_end },
+      { key: 'document', label: 'Pay Stub', type: 'text', value: p => p.document }
+    ]
+  }
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  datasets: ExportDataset[];
+  startDate: string | null; // null = from the first record
+  endDate: string | null; // null = through the last record
+  columns: Record<ExportDataset, string[]>; // Column keys to include, in definition order
+  includeTotals: boolean;
+}
+
+// --- Loading ---
+
+function inRange(date: string | null, start: string | null, end: string | null): boolean {
+  if (!date) return !start && !end;
+  return (!start || date >= start) && (!end || date <= end);
+}
+
+async function loadRows<K extends ExportDataset>(
+  dataset: K,
+  start: string | null,
+  end: string | null
+): Promise<ExportRowTypes[K][]> {
+  if (dataset === 'entries') {
+    const entries = await entryQueries.getByDateRange(start || '0000-01-01', end || '9999-12-31');
+    return entries.sort((a, b) => a.date.localeCompare(b.date)) as ExportRowTypes[K][];
+  }
+
+  if (dataset === 'time_off') {
+    const timeOff = await database.query<TimeOff>(
+      'SELECT * FROM time_off WHERE date >= ? AND date <= ? ORDER BY date',
+      [start || '0000-01-01', end || '9999-12-31']
+    );
+    return timeOff as ExportRowTypes[K][];
+  }
+
+  // Pay stub lines live in each pay stub document's extracted JSON
+  const documents = await database.query<Document>(
+    `SELECT * FROM documents WHERE category = 'pay_stub' AND extracted_data IS NOT NULL ORDER BY created_at`
+  );
+  const items: PaystubItemRow[] = [];
+  for (const doc of documents) {
+    const data = getPaystubData(doc);
+    if (!data) continue;
+    for (const item of data.line_items) {
+      const row: PaystubItemRow = {
+        date: item.date || null,
+        type: item.type,
+        rate: item.rate,
+        hours: item.hours,
+        amount: item.amount,
+        pay_period_start: data.pay_period_start || null,
+        pay_period_end: data.pay_period_end || null,
+        document: doc.name
+      };
+      // Undated lines (vacation pay, adjustments) fall in range by their pay period
+      if (inRange(row.date || row.pay_period_end, start, end)) items.push(row);
+    }
+  }
+  return items.sort((a, b) => (a.date || a.pay_period_end || '').localeCompare(b.date || b.pay_period_end || '')) as ExportRowTypes[K][];
+}
+
+// --- Building ---
+
+export function buildExportSheet<K extends ExportDataset>(
+  dataset: K,
+  rows: ExportRowTypes[K][],
+  columnKeys: string[],
+  includeTotals: boolean,
+  context: ExportContext
+): XlsxSheet {
+  const definition = EXPORT_DATASETS[dataset] as { label: string; columns: ExportColumn<ExportRowTypes[K]>[] };
+  const columns = definition.columns.filter(c => columnKeys.includes(c.key));
+  const values = rows.map(row => columns.map(c => c.value(row, context)));
+
+  let totals: XlsxCell[] | null = null;
+  if (includeTotals && columns.length > 0) {
+    totals = columns.map((c, i) =>
+      c.total ? Math.round(values.reduce((sum, row) => sum + (Number(row[i]) || 0), 0) * 100) / 100 : null
+    );
+    // Label goes in the first column that isn't being summed
+    const labelIndex = columns.findIndex(c => !c.total);
+    if (labelIndex >= 0) totals[labelIndex] = `Total (${rows.length})`;
+  }
+
+  return {
+    name: definition.label,
+    columns: columns.map(c => ({ label: c.label, type: c.type })),
+    rows: values,
+    totals
+  };
+}
+
+// Text a spreadsheet would run as a formula: typed notes, ship and job names, or lines
+// read off a pay stub. A leading ' makes Excel and Sheets show it as text.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: XlsxCell, type: XlsxCellType): string {
+  if (value === null) return '';
+  let text = typeof value === 'number' && type === 'currency' ? value.toFixed(2) : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV with CRLF line endings
+export function sheetToCsv(sheet: XlsxSheet): string {
+  const lines = [sheet.columns.map(c => csvCell(c.label, 'text')).join(',')];
+  for (const row of [...sheet.rows, ...(sheet.totals ? [sheet.totals] : [])]) {
+    lines.push(row.map((value, i) => csvCell(value, sheet.columns[i].type)).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+// --- Public API ---
+
+function rangeLabel(start: string | null, end: string | null): string {
+  if (!start && !end) return 'all';
+  return `${start || 'start'}-to-${end || localToday()}`;
+}
+
+// Build the export and hand it to the share sheet (device) or a download (web).
+// Returns the number of data rows written.
+export async function exportData(options: ExportOptions, ratedJobs: RatedJob[]): Promise<number> {
+  const context: ExportContext = { ratedJobs };
+  const sheets: Array<{ dataset: ExportDataset; sheet: XlsxSheet }> = [];
+
+  for (const dataset of options.datasets) {
+    const rows = await loadRows(dataset, options.startDate, options.endDate);
+    sheets.push({
+      dataset,
+      sheet: buildExportSheet(dataset, rows, options.columns[dataset], options.includeTotals, context)
+    });
+  }
+
+  const rowCount = sheets.reduce((sum, s) => sum + s.sheet.rows.length, 0);
+  if (rowCount === 0) return 0;
+
+  const range = rangeLabel(options.startDate, options.endDate);
+
+  if (options.format === 'xlsx') {
+    const bytes = buildXlsx(sheets.map(s => s.sheet));
+    await shareOrDownloadFile(
+      `docklogbc-export-${range}.xlsx`,
+      bytesToBase64(bytes),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      { base64: true, dialogTitle: 'Export Spreadsheet' }
+    );
+  } else {
+    // CSV holds one table, so each dataset is its own file
+    for (const { dataset, sheet } of sheets) {
+      if (sheet.rows.length === 0) continue;
+      await shareOrDownloadFile(
+        `docklogbc-${dataset.replace('_', '-')}-${range}.csv`,
+        '\uFEFF' + sheetToCsv(sheet), // BOM so Excel reads UTF-8
+        'text/csv',
+        { dialogTitle: 'Export CSV' }
+      );
+    }
+  }
+
+  return rowCount;
+}
@@ -0,0 +1,62 @@
+// File delivery helpers - share sheet on device, browser download on web
+
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+
+// Convert bytes to base64 without blowing the call stack on large files
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Deliver a generated file to the user.
+// Text content is written as UTF-8; pass base64 = true for binary content.
+export async function shareOrDownloadFile(
+  fileName: string,
+  content: string,
+  mimeType: string,
+  options: { base64?: boolean; dialogTitle?: string } = {}
+): Promise<void> {
+  if (Capacitor.getPlatform() === 'web') {
+    const blob = options.base64
+      ? new Blob([base64ToBytes(content)], { type: mimeType })
+      : new Blob([content], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  // Native: write to the cache directory and open the share sheet
+  const savedFile = await Filesystem.writeFile({
+    path: `exports/${fileName}`,
+    data: content,
+    directory: Directory.Cache,
+    encoding: options.base64 ? undefined : Encoding.UTF8,
+    recursive: true
+  });
+
+  await Share.share({
+    files: [savedFile.uri],
+    dialogTitle: options.dialogTitle || fileName
+  });
+}
@@ -0,0 +1,179 @@
+// Work history questions - the model turns a question into a HistoryQuery, a small
+// fixed vocabulary of filters and totals, and it's compiled here into parameterized
+// SQL from fixed fragments. Nothing the model writes ends up in the SQL text itself;
+// its values only ever reach the database as bound parameters.
+
+import type { TimeOffType } from '$lib/db/schema';
+import type { ShiftType } from './earnings';
+
+export const HISTORY_SOURCES = ['entries', 'time_off'] as const;
+export const HISTORY_METRICS = ['count', 'days', 'hours', 'earnings', 'list'] as const;
+export const HISTORY_GROUPS = ['month', 'shift_type', 'job', 'location', 'ship', 'time_off_type'] as const;
+export const HISTORY_TIME_OFF_TYPES = [
+  'vacation',
+  'sick',
+  'wcb',
+  'bereavement',
+  'union_business',
+  'jury_duty',
+  'unpaid'
+] as const satisfies readonly TimeOffType[];
+
+export type HistorySource = (typeof HISTORY_SOURCES)[number];
+export type HistoryMetric = (typeof HISTORY_METRICS)[number];
+export type HistoryGroup = (typeof HISTORY_GROUPS)[number];
+export type HistoryTimeOffType = (typeof HISTORY_TIME_OFF_TYPES)[number];
+
+export interface HistoryQuery {
+  description: string; // The question as understood, shown with the answer
+  source: HistorySource;
+  metric: HistoryMetric; // 'list' just finds the matching rows
+  group_by?: HistoryGroup;
+  date_from?: string;
+  date_to?: string;
+  shift_types?: ShiftType[];
+  job?: string; // Matched as part of the rated or hall job name
+  location?: string;
+  ship?: string;
+  time_off_types?: HistoryTimeOffType[];
+}
+
+// What only makes sense for one source
+export const ENTRY_ONLY_FIELDS = ['shift_types', 'job', 'location', 'ship'] as const;
+export const TIME_OFF_ONLY_FIELDS = ['time_off_types'] as const;
+export const ENTRY_ONLY_METRICS: HistoryMetric[] = ['hours', 'earnings'];
+export const ENTRY_ONLY_GROUPS: HistoryGroup[] = ['shift_type', 'job', 'location', 'ship'];
+export const TIME_OFF_ONLY_GROUPS: HistoryGroup[] = ['time_off_type'];
+
+export interface HistoryStatement {
+  sql: string;
+  params: unknown[];
+}
+
+export interface CompiledHistoryQuery {
+  totals: HistoryStatement; // One row per group (or one row): label, value, missing
+  rows: HistoryStatement; // The rows the totals were taken from
+}
+
+// Rows shown under an answer - more than this and the list says so
+export const HISTORY_ROW_LIMIT = 500;
+
+const ENTRY_FROM = 'FROM entries e LEFT JOIN rated_jobs r ON r.id = e.rated_job_id';
+const ENTRY_JOB = 'COALESCE(r.name, e.hall_job_name)';
+
+const ENTRY_METRICS: Record<HistoryMetric, string> = {
+  count: 'COUNT(*)',
+  days: 'COUNT(DISTINCT e.date)',
+  hours: 'COALESCE(SUM(e.hours), 0)',
+  earnings: 'COALESCE(SUM(e.earnings), 0)',
+  list: 'COUNT(*)'
+};
+
+const ENTRY_GROUPS: Partial<Record<HistoryGroup, string>> = {
+  month: 'substr(e.date, 1, 7)',
+  shift_type: 'e.shift_type',
+  job: ENTRY_JOB,
+  location: 'e.location',
+  ship: 'e.ship'
+};
+
+const TIME_OFF_GROUPS: Partial<Record<HistoryGroup, string>> = {
+  month: 'substr(t.date, 1, 7)',
+  time_off_type: 't.type'
+};
+
+function likeParam(value: string): string {
+  return `%${value.trim().replace(/[\\%_]/g, c => `\\${c}`)}%`;
+}
+
+function placeholders(count: number): string {
+  return Array(count).fill('?').join(', ');
+}
+
+function compileEntries(query: HistoryQuery): CompiledHistoryQuery {
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  if (query.date_from) {
+    where.push('e.date >= ?');
+    params.push(query.date_from);
+  }
+  if (query.date_to) {
+    where.push('e.date <= ?');
+    params.push(query.date_to);
+  }
+  if (query.shift_types?.length) {
+    where.push(`e.shift_type IN (${placeholders(query.shift_types.length)})`);
+    params.push(...query.shift_types);
+  }
+  if (query.job) {
+    where.push(`${ENTRY_JOB} LIKE ? ESCAPE '\\'`);
+    params.push(likeParam(query.job));
+  }
+  if (query.location) {
+    where.push("e.location LIKE ? ESCAPE '\\'");
+    params.push(likeParam(query.location));
+  }
+  if (query.ship) {
+    where.push("e.ship LIKE ? ESCAPE '\\'");
+    params.push(likeParam(query.ship));
+  }
+
+  const whereSql = where.length ? ` WHERE ${where.join(' AND ')}` : '';
+  const group = query.group_by ? ENTRY_GROUPS[query.group_by] : undefined;
+  const missing = query.metric === 'earnings' ? 'SUM(CASE WHEN e.earnings IS NULL THEN 1 ELSE 0 END)' : '0';
+
+  return {
+    totals: {
+      sql: group
+        ? `SELECT ${group} as label, ${ENTRY_METRICS[query.metric]} as value, ${missing} as missing ${ENTRY_FROM}${whereSql} GROUP BY label ORDER BY label`
+        : `SELECT NULL as label, ${ENTRY_METRICS[query.metric]} as value, ${missing} as missing ${ENTRY_FROM}${whereSql}`,
+      params
+    },
+    rows: {
+      sql: `SELECT e.date, e.shift_type, ${ENTRY_JOB} as job, e.hours, e.location, e.ship, e.earnings ${ENTRY_FROM}${whereSql} ORDER BY e.date DESC, e.id DESC LIMIT ${HISTORY_ROW_LIMIT + 1}`,
+      params
+    }
+  };
+}
+
+function compileTimeOff(query: HistoryQuery): CompiledHistoryQuery {
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  if (query.date_from) {
+    where.push('t.date >= ?');
+    params.push(query.date_from);
+  }
+  if (query.date_to) {
+    where.push('t.date <= ?');
+    params.push(query.date_to);
+  }
+  if (query.time_off_types?.length) {
+    where.push(`t.type IN (${placeholders(query.time_off_types.length)})`);
+    params.push(...query.time_off_types);
+  }
+
+  const whereSql = where.length ? ` WHERE ${where.join(' AND ')}` : '';
+  const group = query.group_by ? TIME_OFF_GROUPS[query.group_by] : undefined;
+
+  // One row per day off, so every count is a count of days - half days count as half
+  const days = 'COALESCE(SUM(t.amount), 0)';
+  return {
+    totals: {
+      sql: group
+        ? `SELECT ${group} as label, ${days} as value, 0 as missing FROM time_off t${whereSql} GROUP BY label ORDER BY label`
+        : `SELECT NULL as label, ${days} as value, 0 as missing FROM time_off t${whereSql}`,
+      params
+    },
+    rows: {
+      sql: `SELECT t.date, t.type, t.amount, t.notes FROM time_off t${whereSql} ORDER BY t.date DESC LIMIT ${HISTORY_ROW_LIMIT + 1}`,
+      params
+    }
+  };
+}
+
+// Expects a query that passed validateHistoryQuery
+export function compileHistoryQuery(query: HistoryQuery): CompiledHistoryQuery {
+  return query.source === 'time_off' ? compileTimeOff(query) : compileEntries(query);
+}
@@ -0,0 +1,256 @@
+// iCalendar (.ics, RFC 5545) export - worked shifts, time off, stat holidays
+// and their qualifying windows. Shift times are written in UTC so every calendar
+// app shows them at the right local time without a VTIMEZONE block.
+
+import { database, entryQueries, SHIFTS } from '$lib/db';
+import type { Entry, TimeOff, RatedJob } from '$lib/db';
+import { getStatHolidaysForYear } from '$lib/constants/statHolidays';
+import { TIME_OFF_TYPES } from '$lib/constants/timeOff';
+import { SHIFT_ORDER, type ShiftSettings, type ShiftType } from './earnings';
+import { addDays, localToday } from './dates';
+import { shareOrDownloadFile } from './files';
+
+export interface CalendarExportOptions {
+  startDate: string | null; // null = from the first entry
+  endDate: string | null; // null = through the end of this year
+  includeShifts: boolean;
+  includeTimeOff: boolean;
+  includeStatHolidays: boolean;
+  includeQualifyingWindows: boolean;
+}
+
+type CalendarEvent =
+  | { uid: string; summary: string; description?: string; location?: string; start: Date; end: Date }
+  | { uid: string; summary: string; description?: string; allDay: true; startDate: string; endDate: string };
+
+const PRODID = '-//DockLogBC//Calendar Export//EN';
+
+// --- Formatting ---
+
+// TEXT values escape backslash, semicolon, comma and line breaks
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded with CRLF + space, never inside a UTF-8 sequence
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+// --- Shift times ---
+
+// "8:00am", "4:30 PM" or "16:30" -> minutes after midnight
+function parseClockTime(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function clockMinutes(shifts: Record<ShiftType, ShiftSettings>, shift: ShiftType, edge: 'start' | 'end'): number {
+  return parseClockTime(shifts[shift][edge]) ?? parseClockTime(SHIFTS[shift][edge])!;
+}
+
+// Start and end of a shift logged on a date. Shifts run in SHIFT_ORDER through the
+// work day, so a shift starting earlier than the one before it (graveyard at 1am
+// after the 4:30pm afternoon) begins after midnight, and an end time at or before
+// the start time (afternoon until 1am) ends the next day.
+export function getShiftTimes(
+  date: string,
+  shiftType: ShiftType,
+  shifts: Record<ShiftType, ShiftSettings>
+): { start: Date; end: Date } {
+  let dayOffset = 0;
+  let previousStart = -1;
+  for (const shift of SHIFT_ORDER) {
+    const start = clockMinutes(shifts, shift, 'start');
+    if (start < previousStart) dayOffset = 1;
+    previousStart = start;
+    if (shift === shiftType) break;
+  }
+
+  const startMinutes = clockMinutes(shifts, shiftType, 'start');
+  let endMinutes = clockMinutes(shifts, shiftType, 'end');
+  if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+
+  const [year, month, day] = date.split('-').map(Number);
+  return {
+    start: new Date(year, month - 1, day + dayOffset, 0, startMinutes),
+    end: new Date(year, month - 1, day + dayOffset, 0, endMinutes)
+  };
+}
+
+// --- Building ---
+
+export function buildCalendar(events: CalendarEvent[], name: string): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`
+  ];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+    if ('allDay' in event) {
+      // All-day DTEND is exclusive - the day after the last day
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatDate(event.startDate)}`,
+        `DTEND;VALUE=DATE:${formatDate(addDays(event.endDate, 1))}`,
+        'TRANSP:TRANSPARENT'
+      );
+    } else {
+      lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`);
+      if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function shiftEvent(entry: Entry, ratedJobs: RatedJob[], shifts: Record<ShiftType, ShiftSettings>): CalendarEvent {
+  const job = entry.job_type === 'rated'
+    ? ratedJobs.find(j => j.id === entry.rated_job_id)?.name || 'Rated Job'
+    : entry.hall_job_name || 'Hall Job';
+  const { start, end } = getShiftTimes(entry.date, entry.shift_type, shifts);
+  const details = [`${job} - ${entry.hours} hrs`, entry.ship ? `Ship: ${entry.ship}` : null].filter(Boolean);
+
+  return {
+    uid: `entry-${entry.id}@docklogbc`,
+    summary: `${SHIFTS[entry.shift_type].name} Shift - ${job}`,
+    description: details.join('\n'),
+    location: entry.location || undefined,
+    start,
+    end
+  };
+}
+
+export async function buildCalendarEvents(
+  options: CalendarExportOptions,
+  ratedJobs: RatedJob[],
+  shifts: Record<ShiftType, ShiftSettings>
+): Promise<CalendarEvent[]> {
+  const start = options.startDate || '0000-01-01';
+  const end = options.endDate || `${new Date().getFullYear()}-12-31`;
+  const events: CalendarEvent[] = [];
+
+  if (options.includeShifts) {
+    const entries = await entryQueries.getByDateRange(start, end);
+    for (const entry of entries.sort((a, b) => a.date.localeCompare(b.date))) {
+      events.push(shiftEvent(entry, ratedJobs, shifts));
+    }
+  }
+
+  if (options.includeTimeOff) {
+    const timeOff = await database.query<TimeOff>(
+      'SELECT * FROM time_off WHERE date >= ? AND date <= ? ORDER BY date',
+      [start, end]
+    );
+    for (const day of timeOff) {
+      events.push({
+        uid: `timeoff-${day.id}@docklogbc`,
+        summary: `${TIME_OFF_TYPES[day.type]?.name ?? 'Time Off'}${day.amount < 1 ? ' (half day)' : ''}`,
+        description: day.notes || undefined,
+        allDay: true,
+        startDate: day.date,
+        endDate: day.date
+      });
+    }
+  }
+
+  if (options.includeStatHolidays || options.includeQualifyingWindows) {
+    // Without a start date, holidays from the year of the first entry on
+    let firstDate = start;
+    if (!options.startDate) {
+      const [first] = await database.query<{ date: string | null }>('SELECT MIN(date) as date FROM entries');
+      firstDate = first?.date || end;
+    }
+    const firstYear = Number(firstDate.slice(0, 4));
+
+    for (let year = firstYear; year <= Number(end.slice(0, 4)); year++) {
+      for (const holiday of getStatHolidaysForYear(year)) {
+        if (options.includeStatHolidays && holiday.date >= start && holiday.date <= end) {
+          events.push({
+            uid: `stat-${holiday.date}@docklogbc`,
+            summary: `Stat Holiday: ${holiday.name}`,
+            description: holiday.payDate ? `Stat pay date: ${holiday.payDate}` : undefined,
+            allDay: true,
+            startDate: holiday.date,
+            endDate: holiday.date
+          });
+        }
+        if (
+          options.includeQualifyingWindows &&
+          holiday.qualificationEnd >= start &&
+          holiday.qualificationStart <= end
+        ) {
+          events.push({
+            uid: `qualify-${holiday.date}@docklogbc`,
+            summary: `${holiday.name} qualifying window`,
+            description: `Days worked from ${holiday.qualificationStart} to ${holiday.qualificationEnd} count toward ${holiday.name} stat pay.`,
+            allDay: true,
+            startDate: holiday.qualificationStart,
+            endDate: holiday.qualificationEnd
+          });
+        }
+      }
+    }
+  }
+
+  return events;
+}
+
+// Build the .ics file and open the share sheet (download on web). Returns the event count.
+export async function exportCalendar(
+  options: CalendarExportOptions,
+  ratedJobs: RatedJob[],
+  shifts: Record<ShiftType, ShiftSettings>
+): Promise<number> {
+  const events = await buildCalendarEvents(options, ratedJobs, shifts);
+  if (events.length === 0) return 0;
+
+  await shareOrDownloadFile(
+    `docklogbc-calendar-${localToday()}.ics`,
+    buildCalendar(events, 'DockLogBC'),
+    'text/calendar',
+    { dialogTitle: 'Share Calendar' }
+  );
+  return events.length;
+}
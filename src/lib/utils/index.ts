@@ -1,2 +1,6 @@
 export * from './stats';
 export * from './ai';
+export * from './aiProviders';
+export * from './aiValidation';
+export * from './earnings';
+export * from './statQualification';
@@ -0,0 +1,88 @@
+// Pay periods - the employer's weekly pay cycle. Each week is paid by one pay stub
+// a set number of days after it ends; weeks with shifts but no stub are still owed.
+
+import type { Entry, PayPeriod } from '$lib/db';
+import { addDays } from './dates';
+import { expectedEntryPay, roundCents, type PayContext, type PayRules } from './earnings';
+
+export type PayCycle = Pick<PayRules, 'payWeekStartDay' | 'payDayOffset'>;
+
+export type PayPeriodStatus = 'paid' | 'missing' | 'upcoming' | 'no_work';
+
+export interface PayPeriodSummary {
+  period: PayPeriod;
+  entries: Entry[];
+  hours: number;
+  expectedGross: number; // Priced from logged entries with the earnings engine
+  status: PayPeriodStatus;
+}
+
+export const PAY_PERIOD_STATUS_LABELS: Record<PayPeriodStatus, string> = {
+  paid: 'Pay stub on file',
+  missing: 'Missing pay stub',
+  upcoming: 'Not paid yet',
+  no_work: 'No shifts'
+};
+
+// A pay stub is linked to every week it covers at least this many days of
+const MIN_OVERLAP_DAYS = 4;
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((new Date(end + 'T00:00:00').getTime() - new Date(start + 'T00:00:00').getTime()) / 86400000);
+}
+
+// The pay week a date falls in
+export function payPeriodFor(date: string, cycle: PayCycle): Pick<PayPeriod, 'start_date' | 'end_date' | 'pay_date'> {
+  const weekday = new Date(date + 'T00:00:00').getDay();
+  const start = addDays(date, -((weekday - cycle.payWeekStartDay + 7) % 7));
+  const end = addDays(start, 6);
+  return { start_date: start, end_date: end, pay_date: addDays(end, cycle.payDayOffset) };
+}
+
+// Every pay week from the one containing `from` through the one containing `to`
+export function payPeriodsBetween(from: string, to: string, cycle: PayCycle): Array<Pick<PayPeriod, 'start_date' | 'end_date' | 'pay_date'>> {
+  const periods = [];
+  let period = payPeriodFor(from, cycle);
+  while (period.start_date <= to) {
+    periods.push(period);
+    period = payPeriodFor(addDays(period.end_date, 1), cycle);
+  }
+  return periods;
+}
+
+// Periods a pay stub covering start..end pays for: each week it overlaps by
+// MIN_OVERLAP_DAYS or more, or failing that the week it overlaps most
+export function periodsCoveredBy<T extends Pick<PayPeriod, 'start_date' | 'end_date'>>(start: string, end: string, periods: T[]): T[] {
+  const overlaps = periods
+    .map(period => {
+      const from = period.start_date > start ? period.start_date : start;
+      const to = period.end_date < end ? period.end_date : end;
+      return { period, days: from <= to ? daysBetween(from, to) + 1 : 0 };
+    })
+    .filter(o => o.days > 0);
+
+  const covered = overlaps.filter(o => o.days >= MIN_OVERLAP_DAYS);
+  if (covered.length > 0) return covered.map(o => o.period);
+  if (overlaps.length === 0) return [];
+  return [overlaps.reduce((best, o) => (o.days > best.days ? o : best)).period];
+}
+
+export function summarizePayPeriod(period: PayPeriod, entries: Entry[], context: PayContext, today: string): PayPeriodSummary {
+  const inPeriod = entries.filter(e => e.date >= period.start_date && e.date <= period.end_date);
+  const expectedGross = roundCents(
+    inPeriod.reduce((sum, e) => sum + expectedEntryPay(e, context, inPeriod.filter(other => other.date === e.date)), 0)
+  );
+
+  let status: PayPeriodStatus;
+  if (period.document_id !== null) status = 'paid';
+  else if (inPeriod.length === 0) status = 'no_work';
+  else status = period.pay_date < today ? 'missing' : 'upcoming';
+
+  return {
+    period,
+    entries: inPeriod,
+    hours: inPeriod.reduce((sum, e) => sum + e.hours, 0),
+    expectedGross,
+    status
+  };
+}
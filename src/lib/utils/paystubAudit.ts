@@ -0,0 +1,140 @@
+// Pay stub reconciliation - compares what a pay stub paid, date by date, with
+// the shifts logged for the same dates and what the pay rules say they're worth.
+
+import type { Document, Entry, PaystubDiscrepancyKind } from '$lib/db';
+import type { ParsedPaystubData, ParsedPaystubLineItem } from './ai';
+import { validatePaystub } from './aiValidation';
+import { expectedEntryPay, roundCents, type PayContext } from './earnings';
+
+export interface PaystubDiscrepancy {
+  key: string; // date|kind - what a review is stored against
+  date: string;
+  kind: PaystubDiscrepancyKind;
+  message: string;
+  expected: number | null; // Dollars, or the rate for wrong_rate
+  paid: number | null;
+}
+
+export interface PaystubAuditDay {
+  date: string;
+  lineItems: ParsedPaystubLineItem[];
+  entries: Entry[];
+  paidHours: number;
+  paidAmount: number;
+  loggedHours: number;
+  expectedAmount: number;
+  discrepancies: PaystubDiscrepancy[];
+}
+
+export interface PaystubAudit {
+  start: string;
+  end: string;
+  days: PaystubAuditDay[];
+  discrepancies: PaystubDiscrepancy[];
+  paidTotal: number;
+  expectedTotal: number;
+}
+
+export const DISCREPANCY_LABELS: Record<PaystubDiscrepancyKind, string> = {
+  underpaid: 'Underpaid',
+  wrong_rate: 'Wrong rate',
+  missing_shift: 'Not logged',
+  unpaid_shift: 'Not paid'
+};
+
+// Differences under this many dollars are rounding, not a payroll mistake
+const AMOUNT_TOLERANCE = 1;
+const RATE_TOLERANCE = 0.01;
+
+function dollars(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function discrepancy(
+  date: string,
+  kind: PaystubDiscrepancyKind,
+  message: string,
+  expected: number | null,
+  paid: number | null
+): PaystubDiscrepancy {
+  return { key: `${date}|${kind}`, date, kind, message, expected, paid };
+}
+
+// The pay stub data extracted when the document was saved, checked again like a
+// fresh read - null when it's missing or can't be used
+export function getPaystubData(doc: Pick<Document, 'category' | 'extracted_data'>): ParsedPaystubData | null {
+  if (doc.category !== 'pay_stub' || !doc.extracted_data) return null;
+  try {
+    return validatePaystub(JSON.parse(doc.extracted_data))?.data ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Dates the pay stub covers: its pay period, or the span of its dated lines
+export function paystubDateRange(data: Pick<ParsedPaystubData, 'line_items' | 'pay_period_start' | 'pay_period_end'>): { start: string; end: string } | null {
+  const dates = (data.line_items || []).map(li => li.date).filter(Boolean).sort();
+  const start = data.pay_period_start || dates[0];
+  const end = data.pay_period_end || dates[dates.length - 1];
+  return start && end ? { start, end } : null;
+}
+
+export function auditPaystub(
+  data: Pick<ParsedPaystubData, 'line_items' | 'pay_period_start' | 'pay_period_end'>,
+  entries: Entry[],
+  context: PayContext
+): PaystubAudit | null {
+  const range = paystubDateRange(data);
+  if (!range) return null;
+
+  const lineItems = (data.line_items || []).filter(li => li.date);
+  const inRange = entries.filter(e => e.date >= range.start && e.date <= range.end);
+  const dates = [...new Set([...lineItems.map(li => li.date), ...inRange.map(e => e.date)])].sort();
+
+  const days = dates.map((date): PaystubAuditDay => {
+    const dayItems = lineItems.filter(li => li.date === date);
+    const dayEntries = inRange.filter(e => e.date === date);
+    const paidHours = dayItems.reduce((sum, li) => sum + (li.hours || 0), 0);
+    const paidAmount = roundCents(dayItems.reduce((sum, li) => sum + (li.amount || 0), 0));
+    const loggedHours = dayEntries.reduce((sum, e) => sum + e.hours, 0);
+    const expectedAmount = roundCents(dayEntries.reduce((sum, e) => sum + expectedEntryPay(e, context, dayEntries), 0));
+    const found: PaystubDiscrepancy[] = [];
+
+    if (dayEntries.length === 0) {
+      found.push(discrepancy(date, 'missing_shift', `Paid ${paidHours} hrs (${dollars(paidAmount)}) but no shift is logged`, null, paidAmount));
+    } else if (dayItems.length === 0) {
+      found.push(discrepancy(date, 'unpaid_shift', `Logged ${loggedHours} hrs but this pay stub doesn't pay for it`, expectedAmount, 0));
+    } else {
+      // Regular pay should be at the rate of one of the shifts worked that day
+      const rates = context.ratesFor(date);
+      const expectedRates = [...new Set(dayEntries.map(e => rates[e.shift_type]).filter(rate => rate > 0))];
+      if (expectedRates.length > 0) {
+        for (const item of dayItems) {
+          if (item.type !== 'regular' || !item.rate) continue;
+          if (expectedRates.some(rate => Math.abs(rate - item.rate) <= RATE_TOLERANCE)) continue;
+          const closest = expectedRates.reduce((best, rate) => (Math.abs(rate - item.rate) < Math.abs(best - item.rate) ? rate : best));
+          found.push(discrepancy(date, 'wrong_rate', `Paid at ${dollars(item.rate)}/hr, your rate is ${dollars(closest)}/hr`, closest, item.rate));
+          break;
+        }
+      }
+
+      if (paidAmount < expectedAmount - AMOUNT_TOLERANCE) {
+        const hoursNote = paidHours < loggedHours ? ` for ${paidHours} of ${loggedHours} hrs` : '';
+        found.push(
+          discrepancy(date, 'underpaid', `Paid ${dollars(paidAmount)}${hoursNote}, expected ${dollars(expectedAmount)} (short ${dollars(expectedAmount - paidAmount)})`, expectedAmount, paidAmount)
+        );
+      }
+    }
+
+    return { date, lineItems: dayItems, entries: dayEntries, paidHours, paidAmount, loggedHours, expectedAmount, discrepancies: found };
+  });
+
+  return {
+    start: range.start,
+    end: range.end,
+    days,
+    discrepancies: days.flatMap(d => d.discrepancies),
+    paidTotal: roundCents(days.reduce((sum, d) => sum + d.paidAmount, 0)),
+    expectedTotal: roundCents(days.reduce((sum, d) => sum + d.expectedAmount, 0))
+  };
+}
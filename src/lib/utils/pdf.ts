@@ -0,0 +1,291 @@
+// Minimal PDF writer - headings, wrapped text, label/value lists and tables on
+// US Letter pages, using the built-in Helvetica fonts so nothing is embedded.
+// Like xlsx.ts, layout is described as data and written in one pass.
+
+export type PdfBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'text'; text: string; bold?: boolean; muted?: boolean }
+  | { type: 'keyValues'; rows: Array<[string, string]> }
+  | { type: 'table'; columns: PdfColumn[]; rows: string[][]; totals?: string[] | null }
+  | { type: 'spacer'; height?: number };
+
+export interface PdfColumn {
+  label: string;
+  width: number; // Share of the content width; shares are normalized per table
+  align?: 'left' | 'right';
+}
+
+export interface PdfReport {
+  title: string;
+  subtitle?: string;
+  blocks: PdfBlock[];
+  footer?: string;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = MARGIN + 24; // Leaves room for the footer
+
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM.
+// Bold is close enough to use the same table - digits are identical in both.
+const WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// The standard fonts use WinAnsi - keep Latin-1, swap common punctuation, drop the rest
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? WIDTHS[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+}
+
+function escapePdfText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+// Greedy word wrap; a single word wider than the line is hard-broken
+function wrapText(text: string, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size) > width) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function truncate(text: string, size: number, width: number): string {
+  if (textWidth(text, size) <= width) return text;
+  let cut = text.length;
+  while (cut > 0 && textWidth(text.slice(0, cut) + '...', size) > width) cut--;
+  return text.slice(0, cut) + '...';
+}
+
+// --- Layout ---
+
+class PageWriter {
+  pages: string[][] = [];
+  private ops: string[] = [];
+  y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage(): void {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Start a new page unless `height` more points fit on this one
+  ensure(height: number): boolean {
+    if (this.y - height >= BOTTOM) return false;
+    this.newPage();
+    return true;
+  }
+
+  text(value: string, x: number, y: number, options: { size?: number; bold?: boolean; gray?: number } = {}): void {
+    const size = options.size ?? FONT_SIZE;
+    this.ops.push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${options.gray ?? 0} g ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(value)}) Tj ET`
+    );
+  }
+
+  textRight(value: string, right: number, y: number, options: { size?: number; bold?: boolean; gray?: number } = {}): void {
+    this.text(value, right - textWidth(value, options.size ?? FONT_SIZE), y, options);
+  }
+
+  rule(y: number, gray = 0.75, width = 0.5): void {
+    this.ops.push(`${gray} G ${width} w ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S`);
+  }
+
+  fill(x: number, y: number, width: number, height: number, gray: number): void {
+    this.ops.push(`${gray} g ${x.toFixed(2)} ${y.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f`);
+  }
+}
+
+function layoutTable(writer: PageWriter, block: Extract<PdfBlock, { type: 'table' }>): void {
+  const share = block.columns.reduce((sum, c) => sum + c.width, 0) || 1;
+  const widths = block.columns.map(c => (c.width / share) * CONTENT_WIDTH);
+  const lefts = widths.map((_, i) => MARGIN + widths.slice(0, i).reduce((sum, w) => sum + w, 0));
+  const padding = 4;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    cells.forEach((cell, i) => {
+      const column = block.columns[i];
+      if (!column) return;
+      const value = truncate(toWinAnsi(cell), FONT_SIZE, widths[i] - padding * 2);
+      if (column.align === 'right') {
+        writer.textRight(value, lefts[i] + widths[i] - padding, writer.y, { bold });
+      } else {
+        writer.text(value, lefts[i] + padding, writer.y, { bold });
+      }
+    });
+  };
+
+  const drawHeader = () => {
+    writer.fill(MARGIN, writer.y - 4, CONTENT_WIDTH, LINE_HEIGHT + 2, 0.92);
+    drawRow(block.columns.map(c => c.label), true);
+    writer.y -= LINE_HEIGHT + 2;
+  };
+
+  writer.ensure(LINE_HEIGHT * 3);
+  drawHeader();
+
+  for (const row of block.rows) {
+    // Repeat the header when a table runs onto a new page
+    if (writer.ensure(LINE_HEIGHT)) drawHeader();
+    drawRow(row, false);
+    writer.y -= LINE_HEIGHT;
+  }
+
+  if (block.totals) {
+    writer.ensure(LINE_HEIGHT + 4);
+    writer.rule(writer.y + LINE_HEIGHT - 3, 0.4);
+    drawRow(block.totals, true);
+    writer.y -= LINE_HEIGHT;
+  }
+}
+
+function layout(report: PdfReport): string[][] {
+  const writer = new PageWriter();
+
+  writer.text(toWinAnsi(report.title), MARGIN, writer.y - 18, { size: 18, bold: true });
+  writer.y -= 24;
+  if (report.subtitle) {
+    writer.text(toWinAnsi(report.subtitle), MARGIN, writer.y - 12, { size: 11, gray: 0.4 });
+    writer.y -= 18;
+  }
+  writer.rule(writer.y - 2, 0.6, 1);
+  writer.y -= 18;
+
+  for (const block of report.blocks) {
+    switch (block.type) {
+      case 'heading':
+        // Keep a heading with at least two lines of what follows
+        writer.ensure(LINE_HEIGHT * 4);
+        writer.y -= 8;
+        writer.text(toWinAnsi(block.text), MARGIN, writer.y, { size: 13, bold: true });
+        writer.y -= LINE_HEIGHT + 6;
+        break;
+
+      case 'text':
+        for (const line of wrapText(block.text, FONT_SIZE, CONTENT_WIDTH)) {
+          writer.ensure(LINE_HEIGHT);
+          writer.text(toWinAnsi(line), MARGIN, writer.y, { bold: block.bold, gray: block.muted ? 0.4 : 0 });
+          writer.y -= LINE_HEIGHT;
+        }
+        break;
+
+      case 'keyValues':
+        for (const [label, value] of block.rows) {
+          writer.ensure(LINE_HEIGHT);
+          writer.text(toWinAnsi(label), MARGIN, writer.y, { gray: 0.3 });
+          writer.textRight(toWinAnsi(value), MARGIN + CONTENT_WIDTH, writer.y, { bold: true });
+          writer.y -= LINE_HEIGHT;
+        }
+        break;
+
+      case 'table':
+        layoutTable(writer, block);
+        break;
+
+      case 'spacer':
+        writer.y -= block.height ?? LINE_HEIGHT;
+        break;
+    }
+  }
+
+  // Footer goes on last, once the page count is known
+  const footer = toWinAnsi(report.footer ?? '');
+  writer.pages.forEach((ops, i) => {
+    const y = MARGIN - 10;
+    ops.push(`BT /F1 8 Tf 0.5 g ${MARGIN} ${y} Td (${escapePdfText(footer)}) Tj ET`);
+    const pageLabel = `Page ${i + 1} of ${writer.pages.length}`;
+    ops.push(
+      `BT /F1 8 Tf 0.5 g ${(PAGE_WIDTH - MARGIN - textWidth(pageLabel, 8)).toFixed(2)} ${y} Td (${pageLabel}) Tj ET`
+    );
+  });
+
+  return writer.pages;
+}
+
+// --- Writing ---
+
+export function buildPdf(report: PdfReport): Uint8Array {
+  const pages = layout(report);
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page + content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title (${escapePdfText(toWinAnsi(report.title))}) /Producer (DockLogBC) >>`;
+
+  pages.forEach((ops, i) => {
+    const content = ops.join('\n');
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Everything is single-byte WinAnsi, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+  return bytes;
+}
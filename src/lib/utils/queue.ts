@@ -0,0 +1,51 @@
+// Work queue - runs a task over many items with a cap on how many are in flight,
+// retrying failures with a growing delay. Used for batch AI parsing, where a burst
+// of parallel requests would hit provider rate limits.
+
+export interface QueueOptions {
+  concurrency: number;
+  retries: number; // Extra attempts after the first
+  retryDelayMs?: number; // Doubles with each retry
+  onAttempt?: (index: number, attempt: number) => void; // attempt starts at 1
+}
+
+export type QueueResult<R> =
+  | { ok: true; value: R; attempts: number }
+  | { ok: false; error: unknown; attempts: number };
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function runQueue<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: QueueOptions,
+  onSettled?: (index: number, result: QueueResult<R>) => void
+): Promise<QueueResult<R>[]> {
+  const results: QueueResult<R>[] = new Array(items.length);
+  const delay = options.retryDelayMs ?? 1000;
+  let next = 0;
+
+  async function run(index: number): Promise<QueueResult<R>> {
+    for (let attempt = 1; ; attempt++) {
+      options.onAttempt?.(index, attempt);
+      try {
+        return { ok: true, value: await worker(items[index], index), attempts: attempt };
+      } catch (error) {
+        if (attempt > options.retries) return { ok: false, error, attempts: attempt };
+        await wait(delay * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  // Each lane takes the next waiting item until none are left
+  async function lane(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await run(index);
+      onSettled?.(index, results[index]);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, options.concurrency), items.length) }, lane));
+  return results;
+}
@@ -0,0 +1,75 @@
+// Import reconciliation - match incoming entries against what's already logged
+// An entry's fingerprint is its date, shift, job and hours. Same fingerprint = duplicate;
+// same date and shift but a different job or hours = conflict.
+
+import type { Entry } from '$lib/db/schema';
+
+export type NewEntry = Omit<Entry, 'id' | 'created_at'>;
+
+export type ImportMatch = 'new' | 'duplicate' | 'conflict';
+
+// 'add' imports the row as its own entry ("keep both" when it matched one)
+export type ImportResolution = 'add' | 'skip' | 'overwrite';
+
+export interface ReconciledRow {
+  entry: NewEntry;
+  match: ImportMatch;
+  existing: Entry | null;
+  resolution: ImportResolution;
+}
+
+type JobFields = Pick<Entry, 'job_type' | 'rated_job_id' | 'hall_job_name'>;
+
+export function entryFingerprint(entry: Pick<Entry, 'date' | 'shift_type' | 'hours'>, jobName: string): string {
+  const job = jobName.trim().toLowerCase().replace(/\s+/g, ' ');
+  return `${entry.date}|${entry.shift_type}|${job}|${Math.round(entry.hours * 100)}`;
+}
+
+// Safe defaults: add new rows, leave anything already logged alone
+export const DEFAULT_RESOLUTIONS: Record<ImportMatch, ImportResolution> = {
+  new: 'add',
+  duplicate: 'skip',
+  conflict: 'skip'
+};
+
+// Classify each incoming entry. Every existing entry matches at most one incoming
+// row, so re-importing a split shift pairs both halves instead of one twice.
+export function reconcileEntries(
+  incoming: NewEntry[],
+  existing: Entry[],
+  jobName: (entry: JobFields) => string
+): ReconciledRow[] {
+  const claimed = new Set<number>();
+  const fingerprints = new Map(existing.map(e => [e.id, entryFingerprint(e, jobName(e))]));
+
+  // Exact matches first, so a duplicate isn't taken as some other row's conflict
+  const duplicates = incoming.map(entry => {
+    const fingerprint = entryFingerprint(entry, jobName(entry));
+    const match = existing.find(e => !claimed.has(e.id) && fingerprints.get(e.id) === fingerprint) || null;
+    if (match) claimed.add(match.id);
+    return match;
+  });
+
+  return incoming.map((entry, i) => {
+    if (duplicates[i]) {
+      return { entry, match: 'duplicate', existing: duplicates[i], resolution: DEFAULT_RESOLUTIONS.duplicate };
+    }
+
+    const conflict = existing.find(
+      e => !claimed.has(e.id) && e.date === entry.date && e.shift_type === entry.shift_type
+    );
+    if (conflict) {
+      claimed.add(conflict.id);
+      return { entry, match: 'conflict', existing: conflict, resolution: DEFAULT_RESOLUTIONS.conflict };
+    }
+
+    return { entry, match: 'new', existing: null, resolution: DEFAULT_RESOLUTIONS.new };
+  });
+}
+
+// Date range covering the incoming entries, for loading what's already logged
+export function importDateRange(incoming: Pick<Entry, 'date'>[]): { start: string; end: string } | null {
+  if (incoming.length === 0) return null;
+  const dates = incoming.map(e => e.date).sort();
+  return { start: dates[0], end: dates[dates.length - 1] };
+}
@@ -0,0 +1,498 @@
+// PDF reports - half-year board move, year-end earnings/tax and stat holiday
+// qualification. Built from logged entries, then saved as ordinary documents.
+
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { database, entryQueries, SHIFTS } from '$lib/db';
+import type { Document, Entry, TimeOff, RatedJob } from '$lib/db';
+import { SHIFT_ORDER, countDaysWorked, roundCents, type StatQualificationRules } from './earnings';
+import { calculateTaxBreakdown } from './taxes';
+import { getStatHolidayEvaluations } from './stats';
+import { getPaystubData } from './paystubAudit';
+import { bytesToBase64, shareOrDownloadFile } from './files';
+import { buildPdf, type PdfBlock, type PdfReport } from './pdf';
+
+export type ReportKind = 'board_move' | 'year_end' | 'stat_holidays';
+
+export interface GeneratedReport {
+  kind: ReportKind;
+  name: string; // Document name
+  fileName: string;
+  report: PdfReport;
+  data: Record<string, unknown>; // Stored as the document's extracted_data
+}
+
+// Matches the summary data periodSummaries has always stored
+export interface BoardMoveSummary {
+  period: string;
+  totalHours: number;
+  totalEarnings: number;
+  daysWorked: number;
+  averageHoursPerDay: number;
+  averageEarningsPerDay: number;
+  targetHours: number;
+  targetMet: boolean;
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+function money(amount: number): string {
+  return new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(amount);
+}
+
+function hours(value: number): string {
+  return `${value.toFixed(1)} hrs`;
+}
+
+function shortDate(date: string, includeYear = false): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    ...(includeYear ? { year: 'numeric' } : {})
+  });
+}
+
+function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function footer(): string {
+  return `DockLogBC - generated ${new Date().toLocaleDateString('en-CA', { month: 'long', day: 'numeric', year: 'numeric' })}`;
+}
+
+function jobName(entry: Entry, ratedJobs: RatedJob[]): string {
+  if (entry.job_type === 'rated') {
+    return ratedJobs.find(j => j.id === entry.rated_job_id)?.name || 'Rated Job';
+  }
+  return entry.hall_job_name || 'Hall Job';
+}
+
+function sumEntries(entries: Entry[]): { hours: number; earnings: number; days: number } {
+  return {
+    hours: entries.reduce((sum, e) => sum + e.hours, 0),
+    earnings: roundCents(entries.reduce((sum, e) => sum + (e.earnings || 0), 0)),
+    days: countDaysWorked(entries)
+  };
+}
+
+// Month-by-month table for the months between start and end
+// Half days count as half
+function leaveDays(timeOff: TimeOff[], match: (t: TimeOff) => boolean): number {
+  return timeOff.filter(match).reduce((sum, t) => sum + (t.amount ?? 1), 0);
+}
+
+function monthlyTable(entries: Entry[], start: string, end: string): PdfBlock {
+  const rows: string[][] = [];
+  const [startYear, startMonth] = start.split('-').map(Number);
+  const [endYear, endMonth] = end.split('-').map(Number);
+
+  let year = startYear;
+  let month = startMonth;
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    const prefix = `${year}-${String(month).padStart(2, '0')}`;
+    const totals = sumEntries(entries.filter(e => e.date.startsWith(prefix)));
+    rows.push([`${MONTHS[month - 1]} ${year}`, String(totals.days), totals.hours.toFixed(1), money(totals.earnings)]);
+    if (++month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+
+  const all = sumEntries(entries);
+  return {
+    type: 'table',
+    columns: [
+      { label: 'Month', width: 3 },
+      { label: 'Days', width: 1.5, align: 'right' },
+      { label: 'Hours', width: 2, align: 'right' },
+      { label: 'Earnings', width: 2.5, align: 'right' }
+    ],
+    rows,
+    totals: ['Total', String(all.days), all.hours.toFixed(1), money(all.earnings)]
+  };
+}
+
+function shiftTable(entries: Entry[]): PdfBlock {
+  return {
+    type: 'table',
+    columns: [
+      { label: 'Shift', width: 3 },
+      { label: 'Shifts', width: 1.5, align: 'right' },
+      { label: 'Hours', width: 2, align: 'right' },
+      { label: 'Earnings', width: 2.5, align: 'right' }
+    ],
+    rows: SHIFT_ORDER.map(shift => {
+      const shiftEntries = entries.filter(e => e.shift_type === shift);
+      const totals = sumEntries(shiftEntries);
+      return [SHIFTS[shift].name, String(shiftEntries.length), totals.hours.toFixed(1), money(totals.earnings)];
+    })
+  };
+}
+
+// Top jobs by hours, the rest rolled into "Other"
+function jobTable(entries: Entry[], ratedJobs: RatedJob[], limit = 10): PdfBlock {
+  const byJob = new Map<string, Entry[]>();
+  for (const entry of entries) {
+    const name = jobName(entry, ratedJobs);
+    byJob.set(name, [...(byJob.get(name) || []), entry]);
+  }
+
+  const ranked = [...byJob.entries()]
+    .map(([name, jobEntries]) => ({ name, count: jobEntries.length, ...sumEntries(jobEntries) }))
+    .sort((a, b) => b.hours - a.hours);
+  const rest = ranked.slice(limit);
+  const shown = ranked.slice(0, limit);
+  if (rest.length > 0) {
+    shown.push({
+      name: `Other (${rest.length} jobs)`,
+      count: rest.reduce((sum, j) => sum + j.count, 0),
+      hours: rest.reduce((sum, j) => sum + j.hours, 0),
+      earnings: roundCents(rest.reduce((sum, j) => sum + j.earnings, 0)),
+      days: 0
+    });
+  }
+
+  return {
+    type: 'table',
+    columns: [
+      { label: 'Job', width: 3 },
+      { label: 'Shifts', width: 1.5, align: 'right' },
+      { label: 'Hours', width: 2, align: 'right' },
+      { label: 'Earnings', width: 2.5, align: 'right' }
+    ],
+    rows: shown.map(j => [j.name, String(j.count), j.hours.toFixed(1), money(j.earnings)])
+  };
+}
+
+async function loadTimeOff(start: string, end: string): Promise<TimeOff[]> {
+  return database.query<TimeOff>('SELECT * FROM time_off WHERE date >= ? AND date <= ? ORDER BY date', [start, end]);
+}
+
+// --- Reports ---
+
+export async function buildBoardMoveReport(
+  period: { start: string; end: string; label: string },
+  targetHours: number,
+  ratedJobs: RatedJob[]
+): Promise<GeneratedReport> {
+  const [entries, timeOff] = await Promise.all([
+    entryQueries.getByDateRange(period.start, period.end),
+    loadTimeOff(period.start, period.end)
+  ]);
+  const totals = sumEntries(entries);
+  const targetMet = totals.hours >= targetHours;
+
+  const summary: BoardMoveSummary = {
+    period: period.label,
+    totalHours: totals.hours,
+    totalEarnings: totals.earnings,
+    daysWorked: totals.days,
+    averageHoursPerDay: totals.days > 0 ? totals.hours / totals.days : 0,
+    averageEarningsPerDay: totals.days > 0 ? totals.earnings / totals.days : 0,
+    targetHours,
+    targetMet
+  };
+
+  const blocks: PdfBlock[] = [
+    { type: 'heading', text: 'Board Move Eligibility' },
+    {
+      type: 'text',
+      bold: true,
+      text: targetMet
+        ? `ELIGIBLE - ${hours(totals.hours)} worked against a ${targetHours} hour target.`
+        : `NOT ELIGIBLE - ${hours(totals.hours)} worked, ${hours(targetHours - totals.hours)} short of the ${targetHours} hour target.`
+    },
+    { type: 'spacer', height: 6 },
+    {
+      type: 'keyValues',
+      rows: [
+        ['Total hours', hours(totals.hours)],
+        ['Target hours', hours(targetHours)],
+        ['Days worked', String(totals.days)],
+        ['Average hours per day', hours(summary.averageHoursPerDay)],
+        ['Total earnings', money(totals.earnings)],
+        ['Average earnings per day', money(summary.averageEarningsPerDay)],
+        ['Vacation days', String(leaveDays(timeOff, t => t.type === 'vacation'))],
+        ['Sick days', String(leaveDays(timeOff, t => t.type === 'sick'))],
+        ['Other leave days', String(leaveDays(timeOff, t => t.type !== 'vacation' && t.type !== 'sick'))]
+      ]
+    },
+    { type: 'heading', text: 'By Month' },
+    monthlyTable(entries, period.start, period.end),
+    { type: 'heading', text: 'By Shift' },
+    shiftTable(entries),
+    { type: 'heading', text: 'By Job' },
+    jobTable(entries, ratedJobs)
+  ];
+
+  return {
+    kind: 'board_move',
+    name: `Period Summary - ${period.label}`,
+    fileName: `report_board_move_${period.start}_${period.end}.pdf`,
+    report: {
+      title: 'Period Summary',
+      subtitle: `${period.label} (${shortDate(period.start, true)} - ${shortDate(period.end, true)})`,
+      blocks,
+      footer: footer()
+    },
+    data: { ...summary }
+  };
+}
+
+interface PaystubTotals {
+  count: number;
+  gross: number;
+  net: number;
+  federalTax: number;
+  provincialTax: number;
+  cpp: number;
+  ei: number;
+  unionDues: number;
+  pension: number;
+}
+
+// Amounts actually withheld, from pay stubs saved with extracted data
+async function loadPaystubTotals(year: number): Promise<PaystubTotals> {
+  const totals: PaystubTotals = { count: 0, gross: 0, net: 0, federalTax: 0, provincialTax: 0, cpp: 0, ei: 0, unionDues: 0, pension: 0 };
+  const documents = await database.query<Document>(
+    `SELECT * FROM documents WHERE category = 'pay_stub' AND extracted_data IS NOT NULL`
+  );
+
+  for (const doc of documents) {
+    const data = getPaystubData(doc);
+    if (!data?.pay_period_end?.startsWith(String(year))) continue;
+
+    const amount = (value: number | undefined) => value ?? 0;
+    totals.count++;
+    totals.gross += amount(data.gross_pay);
+    totals.net += amount(data.net_pay);
+    totals.federalTax += amount(data.federal_tax);
+    totals.provincialTax += amount(data.provincial_tax);
+    totals.cpp += amount(data.cpp);
+    totals.ei += amount(data.ei);
+    totals.unionDues += amount(data.union_dues);
+    totals.pension += amount(data.pension_contribution);
+  }
+  return totals;
+}
+
+export async function buildYearEndReport(year: number, ratedJobs: RatedJob[]): Promise<GeneratedReport> {
+  const start = `${year}-01-01`;
+  const end = `${year}-12-31`;
+  const [entries, timeOff, paystubs] = await Promise.all([
+    entryQueries.getByDateRange(start, end),
+    loadTimeOff(start, end),
+    loadPaystubTotals(year)
+  ]);
+  const totals = sumEntries(entries);
+  const tax = calculateTaxBreakdown(totals.earnings);
+  const partialYear = end >= today();
+
+  const blocks: PdfBlock[] = [
+    { type: 'heading', text: 'Earnings' },
+    {
+      type: 'keyValues',
+      rows: [
+        ['Gross earnings (logged)', money(totals.earnings)],
+        ['Hours worked', hours(totals.hours)],
+        ['Days worked', String(totals.days)],
+        ['Average per hour', money(totals.hours > 0 ? totals.earnings / totals.hours : 0)],
+        ['Average per day', money(totals.days > 0 ? totals.earnings / totals.days : 0)],
+        ['Vacation days', String(leaveDays(timeOff, t => t.type === 'vacation'))],
+        ['Sick days', String(leaveDays(timeOff, t => t.type === 'sick'))],
+        ['Other leave days', String(leaveDays(timeOff, t => t.type !== 'vacation' && t.type !== 'sick'))]
+      ]
+    },
+    { type: 'heading', text: 'By Month' },
+    monthlyTable(entries, start, end),
+    { type: 'heading', text: 'By Shift' },
+    shiftTable(entries),
+    { type: 'heading', text: 'By Job' },
+    jobTable(entries, ratedJobs),
+    { type: 'heading', text: 'Estimated Tax (BC)' },
+    {
+      type: 'table',
+      columns: [
+        { label: 'Deduction', width: 5 },
+        { label: 'Estimated', width: 2.5, align: 'right' },
+        { label: 'Per Pay Stubs', width: 2.5, align: 'right' }
+      ],
+      rows: [
+        ['Federal tax', money(tax.federalTax), paystubs.count > 0 ? money(paystubs.federalTax) : '-'],
+        ['BC provincial tax', money(tax.provincialTax), paystubs.count > 0 ? money(paystubs.provincialTax) : '-'],
+        ['CPP', money(tax.cpp), paystubs.count > 0 ? money(paystubs.cpp) : '-'],
+        ['EI', money(tax.ei), paystubs.count > 0 ? money(paystubs.ei) : '-']
+      ],
+      totals: [
+        'Total',
+        money(tax.totalDeductions),
+        paystubs.count > 0 ? money(paystubs.federalTax + paystubs.provincialTax + paystubs.cpp + paystubs.ei) : '-'
+      ]
+    },
+    { type: 'spacer', height: 6 },
+    {
+      type: 'keyValues',
+      rows: [
+        ['Estimated net income', money(tax.netIncome)],
+        ['Effective tax rate', `${tax.effectiveTaxRate.toFixed(1)}%`]
+      ]
+    }
+  ];
+
+  if (paystubs.count > 0) {
+    blocks.push(
+      { type: 'heading', text: 'Pay Stubs' },
+      {
+        type: 'keyValues',
+        rows: [
+          ['Pay stubs on file', String(paystubs.count)],
+          ['Gross pay', money(paystubs.gross)],
+          ['Union dues', money(paystubs.unionDues)],
+          ['Pension contributions', money(paystubs.pension)],
+          ['Net pay', money(paystubs.net)]
+        ]
+      }
+    );
+  }
+
+  blocks.push(
+    { type: 'spacer' },
+    {
+      type: 'text',
+      muted: true,
+      text:
+        'Tax figures are estimates from logged earnings using BC and federal rates, not a substitute for your T4. ' +
+        'The pay stub column totals what was withheld on the pay stubs saved in DockLogBC for this year.'
+    }
+  );
+
+  return {
+    kind: 'year_end',
+    name: `Year-End Report - ${year}`,
+    fileName: `report_year_end_${year}.pdf`,
+    report: {
+      title: `Year-End Report ${year}`,
+      subtitle: partialYear ? `Year to date, through ${shortDate(today(), true)}` : `January 1 - December 31, ${year}`,
+      blocks,
+      footer: footer()
+    },
+    data: {
+      year,
+      totalHours: totals.hours,
+      totalEarnings: totals.earnings,
+      daysWorked: totals.days,
+      estimatedDeductions: roundCents(tax.totalDeductions),
+      paystubCount: paystubs.count,
+      paystubGross: roundCents(paystubs.gross)
+    }
+  };
+}
+
+export async function buildStatHolidayReport(
+  year: number,
+  rules: StatQualificationRules,
+  dayRateOn: (date: string) => number
+): Promise<GeneratedReport> {
+  const todayStr = today();
+  const evaluations = await getStatHolidayEvaluations(year, rules, dayRateOn);
+  const qualified = evaluations.filter(e => e.status === 'qualified').length;
+  const atRisk = evaluations.filter(e => e.status === 'at_risk').length;
+
+  const rows = evaluations.map(e => {
+    let status: string;
+    if (e.status === 'qualified') {
+      status = 'Qualified';
+    } else if (e.status === 'at_risk') {
+      status = `${e.daysNeeded} more, start by ${shortDate(e.lastDateToQualify!)}`;
+    } else {
+      status = 'Not qualified';
+    }
+    return [
+      e.holiday.name,
+      shortDate(e.holiday.date),
+      `${shortDate(e.holiday.qualificationStart)} - ${shortDate(e.holiday.qualificationEnd)}`,
+      `${e.daysCounted}/${e.daysRequired}`,
+      status,
+      e.estimatedPay > 0 ? money(e.estimatedPay) : '-'
+    ];
+  });
+
+  const counted = ['shifts', rules.countSick ? 'sick days' : null, rules.countVacation ? 'vacation days' : null].filter(Boolean);
+
+  const blocks: PdfBlock[] = [
+    {
+      type: 'keyValues',
+      rows: [
+        ['Stat holidays', String(evaluations.length)],
+        ['Qualified', String(qualified)],
+        ['Still possible', String(atRisk)],
+        ['Days required per window', String(rules.minDays)],
+        ['Estimated stat pay', money(evaluations.reduce((sum, e) => sum + e.estimatedPay, 0))]
+      ]
+    },
+    { type: 'heading', text: 'Qualification by Holiday' },
+    {
+      type: 'table',
+      columns: [
+        { label: 'Holiday', width: 2.6 },
+        { label: 'Date', width: 1.3 },
+        { label: 'Qualifying Window', width: 2.4 },
+        { label: 'Days', width: 0.9, align: 'right' },
+        { label: 'Status', width: 2.6 },
+        { label: 'Est. Pay', width: 1.2, align: 'right' }
+      ],
+      rows
+    },
+    { type: 'spacer' },
+    {
+      type: 'text',
+      muted: true,
+      text: `Days counts distinct dates inside each qualifying window with ${counted.join(' or ')}. Pay is estimated at the day rate in effect on the holiday.`
+    }
+  ];
+
+  return {
+    kind: 'stat_holidays',
+    name: `Stat Holiday Report - ${year}`,
+    fileName: `report_stat_holidays_${year}.pdf`,
+    report: {
+      title: `Stat Holiday Qualification ${year}`,
+      subtitle: `As of ${shortDate(todayStr, true)}`,
+      blocks,
+      footer: footer()
+    },
+    data: { year, holidays: evaluations.length, qualified, atRisk }
+  };
+}
+
+// Write the PDF next to other documents and return the row to add to the documents store
+export async function writeReportFile(generated: GeneratedReport): Promise<Omit<Document, 'id' | 'created_at'>> {
+  const bytes = buildPdf(generated.report);
+  // Timestamp keeps regenerated reports from overwriting earlier copies
+  const fileName = generated.fileName.replace(/\.pdf$/, `_${Date.now()}.pdf`);
+  const savedFile = await Filesystem.writeFile({
+    path: `documents/${fileName}`,
+    data: bytesToBase64(bytes),
+    directory: Directory.Data,
+    recursive: true
+  });
+
+  return {
+    name: generated.name,
+    type: 'pdf',
+    file_path: savedFile.uri || `documents/${fileName}`,
+    file_size: bytes.length,
+    mime_type: 'application/pdf',
+    category: 'report',
+    extracted_data: JSON.stringify({ report: generated.kind, ...generated.data }),
+    notes: null
+  };
+}
+
+// Open the share sheet (download on web) with a copy of the report
+export async function shareReport(generated: GeneratedReport): Promise<void> {
+  await shareOrDownloadFile(generated.fileName, bytesToBase64(buildPdf(generated.report)), 'application/pdf', {
+    base64: true,
+    dialogTitle: generated.name
+  });
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { StatHoliday } from '$lib/constants/statHolidays';
+import type { StatQualificationRules } from './earnings';
+import { evaluateStatHoliday, type StatQualificationInput } from './statQualification';
+
+const CANADA_DAY: StatHoliday = {
+  name: 'Canada Day',
+  date: '2026-07-01',
+  qualificationStart: '2026-06-01',
+  qualificationEnd: '2026-06-30'
+};
+
+const RULES: StatQualificationRules = {
+  minDays: 3,
+  countSick: false,
+  countVacation: true,
+  tiers: [{ minDays: 2, hours: 4 }, { minDays: 3, hours: 8 }]
+};
+
+function input(overrides: Partial<StatQualificationInput> = {}): StatQualificationInput {
+  return {
+    workedDates: ['2026-06-02', '2026-06-03'],
+    timeOff: [],
+    today: '2026-07-05',
+    rules: RULES,
+    dayRateOn: () => 53.62,
+    ...overrides
+  };
+}
+
+describe('evaluateStatHoliday', () => {
+  it('counts a full vacation day towards the minimum', () => {
+    const evaluation = evaluateStatHoliday(CANADA_DAY, input({ timeOff: [{ date: '2026-06-04', type: 'vacation', amount: 1 }] }));
+
+    expect(evaluation.timeOffDays).toBe(1);
+    expect(evaluation.daysCounted).toBe(3);
+    expect(evaluation.status).toBe('qualified');
+    expect(evaluation.estimatedPay).toBe(428.96);
+  });
+
+  it('counts a half vacation day as half a day', () => {
+    const evaluation = evaluateStatHoliday(CANADA_DAY, input({ timeOff: [{ date: '2026-06-04', type: 'vacation', amount: 0.5 }] }));
+
+    expect(evaluation.timeOffDays).toBe(0.5);
+    expect(evaluation.daysCounted).toBe(2.5);
+    expect(evaluation.daysNeeded).toBe(1);
+    expect(evaluation.status).toBe('not_qualified');
+    expect(evaluation.estimatedPay).toBe(214.48);
+  });
+
+  it('asks for a whole shift to make up a half day while the window is open', () => {
+    const evaluation = evaluateStatHoliday(
+      CANADA_DAY,
+      input({ timeOff: [{ date: '2026-06-04', type: 'vacation', amount: 0.5 }], today: '2026-06-28' })
+    );
+
+    expect(evaluation.status).toBe('at_risk');
+    expect(evaluation.daysNeeded).toBe(1);
+    expect(evaluation.lastDateToQualify).toBe('2026-06-30');
+  });
+
+  it('skips time off the rules do not count', () => {
+    const evaluation = evaluateStatHoliday(CANADA_DAY, input({ timeOff: [{ date: '2026-06-04', type: 'sick', amount: 1 }] }));
+
+    expect(evaluation.timeOffDays).toBe(0);
+    expect(evaluation.daysCounted).toBe(2);
+  });
+});
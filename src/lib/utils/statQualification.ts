@@ -0,0 +1,110 @@
+// Stat holiday qualification - checks every holiday of a year against the
+// agreement's rules: a minimum number of days in the holiday's qualifying window,
+// whether sick and vacation days count towards it, and the pay tier reached.
+// Kept free of database imports; getStatHolidayEvaluations in stats.ts loads the data.
+
+import type { StatHoliday } from '$lib/constants/statHolidays';
+import { addDays } from './dates';
+import { roundCents, type StatPayTier, type StatQualificationRules } from './earnings';
+
+export type StatQualificationStatus = 'qualified' | 'at_risk' | 'not_qualified';
+
+export type StatWindowState = 'upcoming' | 'open' | 'closed';
+
+export interface StatHolidayEvaluation {
+  holiday: StatHoliday;
+  status: StatQualificationStatus;
+  window: StatWindowState;
+  daysWorked: number; // Distinct dates with a shift in the window
+  timeOffDays: number; // Sick/vacation days counted because the rules allow it; half days count as 0.5
+  daysCounted: number;
+  daysRequired: number;
+  daysNeeded: number; // Still to work; 0 once qualified
+  lastDateToQualify: string | null; // Latest day to start working and still make it; null once qualified or out of reach
+  tier: StatPayTier | null; // Highest tier reached so far
+  estimatedPay: number; // Pay for the tier reached
+  fullPay: number; // Pay for the top tier
+}
+
+export interface StatQualificationInput {
+  workedDates: string[]; // Dates with at least one logged shift
+  timeOff: Array<{ date: string; type: string; amount?: number }>; // amount 0.5 for a half day
+  today: string;
+  rules: StatQualificationRules;
+  dayRateOn: (date: string) => number;
+}
+
+export function statPayTierFor(days: number, rules: StatQualificationRules): StatPayTier | null {
+  let reached: StatPayTier | null = null;
+  for (const tier of rules.tiers) {
+    if (days >= tier.minDays && (!reached || tier.minDays >= reached.minDays)) reached = tier;
+  }
+  return reached;
+}
+
+function topTier(rules: StatQualificationRules): StatPayTier | null {
+  return rules.tiers.reduce<StatPayTier | null>((top, tier) => (!top || tier.minDays > top.minDays ? tier : top), null);
+}
+
+export function evaluateStatHoliday(holiday: StatHoliday, input: StatQualificationInput): StatHolidayEvaluation {
+  const { rules, today } = input;
+  const start = holiday.qualificationStart;
+  const end = holiday.qualificationEnd;
+  const inWindow = (date: string) => date >= start && date <= end;
+
+  const worked = new Set(input.workedDates.filter(inWindow));
+  // Days off that don't count can't be worked either, unless a shift was logged anyway
+  const countedTimeOff = new Map<string, number>();
+  const unavailable = new Set<string>();
+  for (const day of input.timeOff) {
+    if (!inWindow(day.date) || worked.has(day.date)) continue;
+    const counts = (day.type === 'sick' && rules.countSick) || (day.type === 'vacation' && rules.countVacation);
+    if (counts) countedTimeOff.set(day.date, day.amount ?? 1);
+    else unavailable.add(day.date);
+  }
+
+  const timeOffDays = [...countedTimeOff.values()].reduce((sum, amount) => sum + amount, 0);
+  const daysCounted = worked.size + timeOffDays;
+  // Shifts are whole days, so a half day still short of the minimum needs a full one
+  const daysNeeded = Math.max(Math.ceil(rules.minDays - daysCounted), 0);
+  const window: StatWindowState = today < start ? 'upcoming' : today > end ? 'closed' : 'open';
+
+  // Walk back from the end of the window over the days still free to work; where
+  // enough of them have been passed is the last day a run of shifts can start
+  let lastDateToQualify: string | null = null;
+  if (daysNeeded > 0 && window !== 'closed') {
+    const earliest = today > start ? today : start;
+    let free = 0;
+    for (let day = end; day >= earliest; day = addDays(day, -1)) {
+      if (worked.has(day) || countedTimeOff.has(day) || unavailable.has(day)) continue;
+      if (++free === daysNeeded) {
+        lastDateToQualify = day;
+        break;
+      }
+    }
+  }
+
+  const status: StatQualificationStatus = daysNeeded === 0 ? 'qualified' : lastDateToQualify ? 'at_risk' : 'not_qualified';
+  const tier = statPayTierFor(daysCounted, rules);
+  const top = topTier(rules);
+  const dayRate = input.dayRateOn(holiday.date);
+
+  return {
+    holiday,
+    status,
+    window,
+    daysWorked: worked.size,
+    timeOffDays,
+    daysCounted,
+    daysRequired: rules.minDays,
+    daysNeeded,
+    lastDateToQualify,
+    tier,
+    estimatedPay: tier ? roundCents(tier.hours * dayRate) : 0,
+    fullPay: top ? roundCents(top.hours * dayRate) : 0
+  };
+}
+
+export function evaluateStatHolidays(holidays: StatHoliday[], input: StatQualificationInput): StatHolidayEvaluation[] {
+  return holidays.map(holiday => evaluateStatHoliday(holiday, input));
+}
@@ -0,0 +1,134 @@
+// Stat holiday schedules - converting between the saved rows and the app's holidays,
+// comparing a new schedule with the stored one, and the JSON file members share.
+
+import type { StatHoliday } from '$lib/constants/statHolidays';
+import type { StatHolidayRecord } from '$lib/db/schema';
+import type { ParsedStatHoliday } from './ai';
+import { validateStatSchedule, type ValidationIssue } from './aiValidation';
+
+const STAT_SCHEDULE_FORMAT = 'docklogbc-stat-holidays';
+export const STAT_SCHEDULE_VERSION = 1;
+
+export interface StatSchedule {
+  year: number;
+  holidays: ParsedStatHoliday[];
+}
+
+export interface StatScheduleFile {
+  format: typeof STAT_SCHEDULE_FORMAT;
+  version: number;
+  exported_at: string;
+  schedules: StatSchedule[];
+}
+
+export type StatScheduleChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface StatScheduleChange {
+  kind: StatScheduleChangeKind;
+  current?: ParsedStatHoliday;
+  incoming?: ParsedStatHoliday;
+  fields: Array<keyof ParsedStatHoliday>; // What differs, for 'changed'
+}
+
+export class StatScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatScheduleError';
+  }
+}
+
+const COMPARED_FIELDS: Array<keyof ParsedStatHoliday> = ['name', 'date', 'qualification_start', 'qualification_end', 'pay_date'];
+
+export function toScheduleHolidays(holidays: StatHoliday[]): ParsedStatHoliday[] {
+  return holidays.map(h => ({
+    name: h.name,
+    date: h.date,
+    qualification_start: h.qualificationStart,
+    qualification_end: h.qualificationEnd,
+    pay_date: h.payDate
+  }));
+}
+
+export function toStatHolidayRecords(schedule: StatSchedule): Omit<StatHolidayRecord, 'id' | 'created_at'>[] {
+  return [...schedule.holidays]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(h => ({
+      year: schedule.year,
+      name: h.name.trim(),
+      date: h.date,
+      qualification_start: h.qualification_start,
+      qualification_end: h.qualification_end,
+      pay_date: h.pay_date || null
+    }));
+}
+
+function holidayKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Pair holidays by name, then by date for any renamed ones
+export function diffStatSchedules(current: ParsedStatHoliday[], incoming: ParsedStatHoliday[]): StatScheduleChange[] {
+  const unmatched = [...current];
+  const changes: StatScheduleChange[] = [];
+  const take = (match: (h: ParsedStatHoliday) => boolean) => {
+    const index = unmatched.findIndex(match);
+    return index === -1 ? undefined : unmatched.splice(index, 1)[0];
+  };
+
+  const pending: ParsedStatHoliday[] = [];
+  for (const holiday of incoming) {
+    const existing = take(h => holidayKey(h.name) === holidayKey(holiday.name));
+    if (existing) changes.push(compare(existing, holiday));
+    else pending.push(holiday);
+  }
+  for (const holiday of pending) {
+    const existing = take(h => h.date === holiday.date);
+    changes.push(existing ? compare(existing, holiday) : { kind: 'added', incoming: holiday, fields: [] });
+  }
+  for (const holiday of unmatched) {
+    changes.push({ kind: 'removed', current: holiday, fields: [] });
+  }
+
+  return changes.sort((a, b) => (a.incoming ?? a.current)!.date.localeCompare((b.incoming ?? b.current)!.date));
+}
+
+function compare(current: ParsedStatHoliday, incoming: ParsedStatHoliday): StatScheduleChange {
+  const fields = COMPARED_FIELDS.filter(field => (current[field] || '') !== (incoming[field] || ''));
+  return { kind: fields.length > 0 ? 'changed' : 'unchanged', current, incoming, fields };
+}
+
+export function serializeStatSchedules(schedules: StatSchedule[]): string {
+  const file: StatScheduleFile = {
+    format: STAT_SCHEDULE_FORMAT,
+    version: STAT_SCHEDULE_VERSION,
+    exported_at: new Date().toISOString(),
+    schedules: schedules.map(s => ({ year: s.year, holidays: [...s.holidays].sort((a, b) => a.date.localeCompare(b.date)) }))
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Read a shared schedule file. Each year is checked like an AI-read schedule;
+// its warnings come back for review rather than failing the import.
+export function parseStatScheduleFile(text: string): Array<StatSchedule & { issues: ValidationIssue[] }> {
+  let file: Partial<StatScheduleFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new StatScheduleError('This is not a stat holiday schedule file.');
+  }
+
+  if (file?.format !== STAT_SCHEDULE_FORMAT || !Array.isArray(file.schedules)) {
+    throw new StatScheduleError('This is not a stat holiday schedule file.');
+  }
+  if ((file.version || 0) > STAT_SCHEDULE_VERSION) {
+    throw new StatScheduleError('This schedule was exported by a newer version of the app. Update to import it.');
+  }
+
+  return file.schedules.map((schedule, index) => {
+    const validated = validateStatSchedule(schedule);
+    if (!validated || validated.data.holidays.length === 0) {
+      throw new StatScheduleError(`Schedule ${index + 1} in this file is incomplete.`);
+    }
+    return { ...validated.data, issues: validated.issues };
+  });
+}
@@ -1,23 +1,9 @@
-import { entryQueries } from '$lib/db';
-import { getNextStatHoliday, getStatQualifyingWindow } from '$lib/constants/statHolidays';
-import type { User } from '$lib/db';
-
-export interface StatHolidayStatus {
-  nextHoliday: {
-    name: string;
-    date: string;
-    daysUntil: number;
-  } | null;
-  qualifyingWindow: {
-    start: string;
-    end: string;
-  } | null;
-  daysWorked: number;
-  daysRequired: number;
-  qualificationPercent: number;
-  estimatedPay: number;
-  fullPay: number;
-}
+import { database, entryQueries } from '$lib/db';
+import { getStatHolidaysForYear } from '$lib/constants/statHolidays';
+import type { TimeOff, User } from '$lib/db';
+import { localToday, toDateString } from './dates';
+import type { StatQualificationRules } from './earnings';
+import { evaluateStatHolidays, type StatHolidayEvaluation } from './statQualification';
 
 export interface AverageHoursStatus {
   currentHours: number;
@@ -29,52 +15,30 @@ export interface AverageHoursStatus {
   onTrack: boolean;
 }
 
-// Calculate stat holiday qualification status
-export async function getStatHolidayStatus(user: User | null): Promise<StatHolidayStatus> {
-  const nextHoliday = getNextStatHoliday();
-
-  if (!nextHoliday) {
-    return {
-      nextHoliday: null,
-      qualifyingWindow: null,
-      daysWorked: 0,
-      daysRequired: 15,
-      qualificationPercent: 0,
-      estimatedPay: 0,
-      fullPay: 0
-    };
-  }
-
-  const today = new Date();
-  const statDate = new Date(nextHoliday.date);
-  const daysUntil = Math.ceil((statDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-
-  const window = getStatQualifyingWindow(nextHoliday.date);
-
-  // Get days worked in the qualifying window
-  const daysWorked = await entryQueries.getWorkDaysCount(window.start, window.end);
-
-  const daysRequired = 15;
-  const qualificationPercent = Math.min((daysWorked / daysRequired) * 100, 100);
-
-  // Calculate stat pay (8 hours at day rate)
-  const dayRate = user?.day_rate || 0;
-  const fullPay = 8 * dayRate;
-  const estimatedPay = (qualificationPercent / 100) * fullPay;
+// Every stat holiday of a year checked against the qualification rules
+export async function getStatHolidayEvaluations(
+  year: number,
+  rules: StatQualificationRules,
+  dayRateOn: (date: string) => number
+): Promise<StatHolidayEvaluation[]> {
+  const holidays = getStatHolidaysForYear(year);
+  if (holidays.length === 0) return [];
+
+  // One load covering every window - the first one starts in the year before
+  const start = holidays.reduce((min, h) => (h.qualificationStart < min ? h.qualificationStart : min), holidays[0].qualificationStart);
+  const end = holidays.reduce((max, h) => (h.qualificationEnd > max ? h.qualificationEnd : max), holidays[0].qualificationEnd);
+  const [workedDates, timeOff] = await Promise.all([
+    entryQueries.getWorkDates(start, end),
+    database.query<Pick<TimeOff, 'date' | 'type' | 'amount'>>('SELECT date, type, amount FROM time_off WHERE date >= ? AND date <= ?', [start, end])
+  ]);
 
-  return {
-    nextHoliday: {
-      name: nextHoliday.name,
-      date: nextHoliday.date,
-      daysUntil
-    },
-    qualifyingWindow: window,
-    daysWorked,
-    daysRequired,
-    qualificationPercent,
-    estimatedPay,
-    fullPay
-  };
+  return evaluateStatHolidays(holidays, {
+    workedDates,
+    timeOff,
+    today: localToday(),
+    rules,
+    dayRateOn
+  });
 }
 
 // Calculate average hours status for board move
@@ -100,9 +64,9 @@ export async function getAverageHoursStatus(user: User | null): Promise<AverageH
     periodEnd = new Date(year, 11, 31);
   }
 
-  const startDate = periodStart.toISOString().split('T')[0];
-  const endDate = periodEnd.toISOString().split('T')[0];
-  const todayStr = now.toISOString().split('T')[0];
+  const startDate = toDateString(periodStart);
+  const endDate = toDateString(periodEnd);
+  const todayStr = toDateString(now);
 
   // Get hours worked so far this period
   const currentHours = await entryQueries.getTotalHours(startDate, todayStr);